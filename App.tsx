@@ -1,28 +1,149 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useStore } from './store';
 import { Editor2D } from './components/Editor2D';
 import { Scene3D } from './components/Scene3D';
 import { XRView } from './components/XRView';
+import { HistoryPanel } from './components/HistoryPanel';
+import { LayersPanel } from './components/LayersPanel';
+import { BuildGuide } from './components/BuildGuide';
+import { BoardSettings } from './components/BoardSettings';
+import { PaletteManager } from './components/PaletteManager';
+import { ImageImport } from './components/ImageImport';
+import { PatternLibrary } from './components/PatternLibrary';
+import { InventoryPanel } from './components/InventoryPanel';
+import { ImageExport } from './components/ImageExport';
+import { ModelExport } from './components/ModelExport';
+import { TemplateExport } from './components/TemplateExport';
 import { generatePDF } from './utils/exportPdf';
+import { parsePatternFile } from './utils/patternIO';
+import { hasBeads, resolveLayers } from './utils/layers';
+import { LONG_LINK, decodeSharedPattern, shareUrl, sharedPatternData } from './utils/shareLink';
+import { ariaKeys, shortcutHint, shortcutLabel, useShortcuts } from './utils/shortcuts';
+import { ShortcutHelp } from './components/ShortcutHelp';
+import { STAMPS } from './utils/shapes';
+import { Pattern, RenderQuality, SymmetryMode, ToolType } from './types';
 import { 
   Palette, Undo, Redo, Download, Eye, Grid3X3, 
-  Trash2, Eraser, PenTool, PaintBucket, Box, RotateCcw
+  Trash2, Eraser, Pipette, PenTool, PaintBucket, Box, RotateCcw,
+  Slash, Square, Circle, Stamp, BoxSelect, Copy, Scissors, ClipboardPaste,
+  FlipHorizontal, FlipVertical, RotateCw, Check, History, LayoutGrid, ImagePlus, Library, X, Layers, Footprints, Package, Keyboard
 } from 'lucide-react';
 import clsx from 'clsx';
+import { v4 as uuidv4 } from 'uuid';
+
+const TOOLS: ToolType[] = ['pencil', 'fill', 'eraser', 'eyedropper', 'select', 'line', 'rect', 'ellipse', 'stamp'];
 
 function App() {
   const { 
     viewMode, setViewMode, palette, selectedColorId, setColor,
     activeTool, setTool, undo, redo, clearBoard, exportPattern,
-    board, cells, metadata
+    board, cells, metadata, shapeFilled, setShapeFilled,
+    selectedStampId, setStamp, selection, floating, clipboard,
+    copySelection, cutSelection, pasteClipboard, flipSelection, rotateSelection, commitFloating,
+    symmetry, setSymmetry, loadPattern, guide, startGuide, stopGuide, renderQuality, setRenderQuality,
+    layers, activeLayerId
   } = useStore();
+  // Beads on any layer, not just the active one, are worth asking about before replacing
+  const hasDesign = hasBeads(resolveLayers(layers, activeLayerId, cells));
 
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isLayersOpen, setIsLayersOpen] = useState(false);
+  const [isBoardOpen, setIsBoardOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isImageOpen, setIsImageOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isInventoryOpen, setIsInventoryOpen] = useState(false);
+  const [isImageExportOpen, setIsImageExportOpen] = useState(false);
+  const [isModelExportOpen, setIsModelExportOpen] = useState(false);
+  const [isTemplateOpen, setIsTemplateOpen] = useState(false);
+  const [printGrayscale, setPrintGrayscale] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [sharedPattern, setSharedPattern] = useState<Pattern | null>(null);
+  const openFileRef = useRef<HTMLInputElement>(null);
+
+  useShortcuts({
+    ...Object.fromEntries(TOOLS.map(tool => [tool, () => setTool(tool)])),
+    color: (index) => { if (palette[index]) setColor(palette[index].id); },
+    undo,
+    redo,
+    // Only with something to copy, so Ctrl+C still copies page text otherwise
+    ...(selection ? { copy: copySelection, cut: cutSelection } : {}),
+    ...(clipboard ? { paste: pasteClipboard } : {}),
+    help: () => setIsShortcutsOpen(true),
+  });
+
+  // Label, tooltip and pressed state for a tool button
+  const toolProps = (tool: ToolType) => ({
+    onClick: () => setTool(tool),
+    'aria-label': shortcutLabel(tool),
+    'aria-pressed': activeTool === tool,
+    'aria-keyshortcuts': ariaKeys(tool),
+    title: shortcutHint(tool),
+  });
 
-  const handleDownload = (type: 'kid' | 'teacher') => {
+  const handleDownload = (type: 'kid' | 'teacher' | 'steps') => {
     const pattern = exportPattern();
-    generatePDF(pattern, board, palette, type);
+    generatePDF(pattern, board, palette, type, guide?.order, printGrayscale);
+    setIsMenuOpen(false);
+  };
+
+  // Opened from a shared link: offer the pattern in the address instead of loading it outright
+  useEffect(() => {
+    const checkHash = () => {
+      const data = sharedPatternData(window.location.hash);
+      if (!data) return;
+      // Drop the pattern from the address so reloading doesn't ask again
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      try {
+        setSharedPattern(decodeSharedPattern(data));
+      } catch (err) {
+        setImportError(`Could not open the shared link:\n${err instanceof Error ? err.message : 'Unknown error.'}`);
+      }
+    };
+    checkHash();
+    window.addEventListener('hashchange', checkHash);
+    return () => window.removeEventListener('hashchange', checkHash);
+  }, []);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 5000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const copyShareLink = async () => {
     setIsMenuOpen(false);
+    const url = shareUrl(exportPattern(), window.location.href);
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice(url.length > LONG_LINK
+        ? `Link copied, but it is ${url.length} characters long and some sites may cut it off. Use Save JSON for big designs.`
+        : 'Link copied. Anyone with it can open this design.');
+    } catch {
+      // No clipboard access (e.g. not served over https)
+      window.prompt('Copy this link:', url);
+    }
+  };
+
+  const importPatternFile = async (file: File) => {
+    try {
+      const pattern = parsePatternFile(await file.text());
+      if (hasDesign && !window.confirm(`Replace the current design with "${pattern.metadata.title}"?`)) return;
+      // A fresh id so saving it never overwrites a library entry
+      loadPattern({ ...pattern, id: uuidv4() });
+      setImportError(null);
+    } catch (err) {
+      setImportError(`Could not open ${file.name}:\n${err instanceof Error ? err.message : 'Unknown error.'}`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (file) importPatternFile(file);
   };
 
   return (
@@ -41,18 +162,24 @@ function App() {
         <div className="flex items-center bg-slate-100 rounded-lg p-1 gap-1">
           <button 
             onClick={() => setViewMode('2D')}
+            aria-label="2D editor"
+            aria-pressed={viewMode === '2D'}
             className={clsx("p-2 rounded transition", viewMode === '2D' ? "bg-white shadow text-brand-600" : "text-slate-500")}
           >
             <Grid3X3 size={20} />
           </button>
           <button 
             onClick={() => setViewMode('3D')}
+            aria-label="3D view"
+            aria-pressed={viewMode === '3D'}
             className={clsx("p-2 rounded transition", viewMode === '3D' ? "bg-white shadow text-brand-600" : "text-slate-500")}
           >
             <Box size={20} />
           </button>
            <button 
             onClick={() => setViewMode('XR')}
+            aria-label="AR view"
+            aria-pressed={viewMode === 'XR'}
             className={clsx("p-2 rounded transition", viewMode === 'XR' ? "bg-white shadow text-brand-600" : "text-slate-500")}
           >
             <Eye size={20} />
@@ -61,22 +188,110 @@ function App() {
 
         {/* Actions */}
         <div className="flex items-center gap-2">
-          <button onClick={undo} className="p-2 text-slate-600 hover:bg-slate-100 rounded"><Undo size={20} /></button>
-          <button onClick={redo} className="p-2 text-slate-600 hover:bg-slate-100 rounded"><Redo size={20} /></button>
+          <button 
+            onClick={() => setIsLibraryOpen(true)} 
+            aria-label="My patterns"
+            className="p-2 text-slate-600 hover:bg-slate-100 rounded"
+          >
+            <Library size={20} />
+          </button>
+          <button 
+            onClick={() => setIsInventoryOpen(true)} 
+            aria-label="Bead inventory"
+            className="p-2 text-slate-600 hover:bg-slate-100 rounded"
+          >
+            <Package size={20} />
+          </button>
+          <button 
+            onClick={() => setIsBoardOpen(true)} 
+            aria-label="Board settings"
+            className="p-2 text-slate-600 hover:bg-slate-100 rounded"
+          >
+            <LayoutGrid size={20} />
+          </button>
+          <button 
+            onClick={() => setIsImageOpen(true)} 
+            aria-label="Picture to pattern"
+            className="p-2 text-slate-600 hover:bg-slate-100 rounded"
+          >
+            <ImagePlus size={20} />
+          </button>
+          <button 
+            onClick={() => setIsShortcutsOpen(true)} 
+            aria-label="Keyboard shortcuts"
+            title={shortcutHint('help')}
+            className="p-2 text-slate-600 hover:bg-slate-100 rounded hidden sm:block"
+          >
+            <Keyboard size={20} />
+          </button>
+          <button onClick={undo} aria-label="Undo" title={shortcutHint('undo')} aria-keyshortcuts={ariaKeys('undo')} className="p-2 text-slate-600 hover:bg-slate-100 rounded"><Undo size={20} /></button>
+          <button onClick={redo} aria-label="Redo" title={shortcutHint('redo')} aria-keyshortcuts={ariaKeys('redo')} className="p-2 text-slate-600 hover:bg-slate-100 rounded"><Redo size={20} /></button>
+          <button 
+            onClick={() => guide ? stopGuide() : startGuide('row')} 
+            aria-label="Build guide"
+            className={clsx("p-2 rounded", guide ? "bg-slate-100 text-brand-600" : "text-slate-600 hover:bg-slate-100")}
+          >
+            <Footprints size={20} />
+          </button>
+          <button 
+            onClick={() => setIsLayersOpen(!isLayersOpen)} 
+            aria-label="Layers"
+            className={clsx("p-2 rounded", isLayersOpen ? "bg-slate-100 text-brand-600" : "text-slate-600 hover:bg-slate-100")}
+          >
+            <Layers size={20} />
+          </button>
+          <button 
+            onClick={() => setIsHistoryOpen(!isHistoryOpen)} 
+            aria-label="History"
+            className={clsx("p-2 rounded", isHistoryOpen ? "bg-slate-100 text-brand-600" : "text-slate-600 hover:bg-slate-100")}
+          >
+            <History size={20} />
+          </button>
           
           <div className="relative">
             <button 
               onClick={() => setIsMenuOpen(!isMenuOpen)}
+              aria-haspopup="menu"
+              aria-expanded={isMenuOpen}
               className="p-2 bg-brand-500 text-white rounded hover:bg-brand-600 flex gap-2 items-center"
             >
               <Download size={18} /> <span className="hidden sm:inline">Export</span>
             </button>
             
             {isMenuOpen && (
-              <div className="absolute right-0 top-full mt-2 w-48 bg-white rounded-lg shadow-xl border border-slate-100 py-1 z-50">
+              <div className="absolute right-0 top-full mt-2 w-48 bg-white rounded-lg shadow-xl border border-slate-100 py-1 z-50" role="menu" aria-label="Export">
+                <label className="flex items-center gap-2 px-4 py-2 text-xs text-slate-500">
+                  <input type="checkbox" checked={printGrayscale} onChange={(e) => setPrintGrayscale(e.target.checked)} />
+                  Black &amp; white sheets
+                </label>
                 <button onClick={() => handleDownload('kid')} className="w-full text-left px-4 py-2 hover:bg-slate-50 text-slate-700">Kid Sheet (Easy)</button>
                 <button onClick={() => handleDownload('teacher')} className="w-full text-left px-4 py-2 hover:bg-slate-50 text-slate-700">Teacher Sheet (Data)</button>
+                <button onClick={() => handleDownload('steps')} className="w-full text-left px-4 py-2 hover:bg-slate-50 text-slate-700">Build Steps (Pages)</button>
+                <button 
+                    onClick={() => { setIsTemplateOpen(true); setIsMenuOpen(false); }}
+                    className="w-full text-left px-4 py-2 hover:bg-slate-50 text-slate-700"
+                >
+                    True-Size Template…
+                </button>
+                <button 
+                    onClick={() => { setIsImageExportOpen(true); setIsMenuOpen(false); }}
+                    className="w-full text-left px-4 py-2 hover:bg-slate-50 text-slate-700"
+                >
+                    Picture (PNG/SVG)…
+                </button>
+                <button 
+                    onClick={() => { setIsModelExportOpen(true); setIsMenuOpen(false); }}
+                    className="w-full text-left px-4 py-2 hover:bg-slate-50 text-slate-700"
+                >
+                    3D Model (STL/OBJ/GLB)…
+                </button>
                 <div className="h-px bg-slate-100 my-1"></div>
+                <button 
+                    onClick={() => { openFileRef.current?.click(); setIsMenuOpen(false); }}
+                    className="w-full text-left px-4 py-2 hover:bg-slate-50 text-slate-700"
+                >
+                    Open JSON…
+                </button>
                 <button 
                     onClick={() => {
                         const blob = new Blob([JSON.stringify(exportPattern())], {type: "application/json"});
@@ -90,17 +305,98 @@ function App() {
                 >
                     Save JSON
                 </button>
+                <button 
+                    onClick={copyShareLink}
+                    className="w-full text-left px-4 py-2 hover:bg-slate-50 text-slate-700"
+                >
+                    Copy Link
+                </button>
               </div>
             )}
+            <input 
+              ref={openFileRef} 
+              type="file" 
+              accept=".json,application/json" 
+              className="hidden" 
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) importPatternFile(file);
+              }} 
+            />
           </div>
         </div>
       </header>
 
       {/* Main Content Area */}
-      <main className="flex-1 relative overflow-hidden">
+      <main className="flex-1 relative overflow-hidden" onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
         {viewMode === '2D' && <Editor2D />}
         {viewMode === '3D' && <div className="w-full h-full cursor-move"><Scene3D interactive /></div>}
+        {viewMode === '3D' && (
+          <select
+            value={renderQuality}
+            onChange={(e) => setRenderQuality(e.target.value as RenderQuality)}
+            className="absolute bottom-4 right-4 z-20 px-3 py-2 rounded-full text-sm bg-white shadow text-slate-600"
+            aria-label="3D quality"
+            title="Low quality saves battery on tablets"
+          >
+            <option value="auto">Auto quality</option>
+            <option value="high">High quality</option>
+            <option value="low">Low quality</option>
+          </select>
+        )}
         {viewMode === 'XR' && <XRView />}
+        {isHistoryOpen && viewMode !== 'XR' && <HistoryPanel onClose={() => setIsHistoryOpen(false)} />}
+        {isLayersOpen && viewMode !== 'XR' && <LayersPanel onClose={() => setIsLayersOpen(false)} />}
+        {viewMode !== 'XR' && <BuildGuide />}
+        {isBoardOpen && <BoardSettings onClose={() => setIsBoardOpen(false)} />}
+        {isPaletteOpen && <PaletteManager onClose={() => setIsPaletteOpen(false)} />}
+        {isImageOpen && <ImageImport onClose={() => setIsImageOpen(false)} />}
+        {isLibraryOpen && <PatternLibrary onClose={() => setIsLibraryOpen(false)} />}
+        {isInventoryOpen && <InventoryPanel onClose={() => setIsInventoryOpen(false)} />}
+        {isImageExportOpen && <ImageExport onClose={() => setIsImageExportOpen(false)} />}
+        {isModelExportOpen && <ModelExport onClose={() => setIsModelExportOpen(false)} />}
+        {isTemplateOpen && <TemplateExport onClose={() => setIsTemplateOpen(false)} />}
+        {isShortcutsOpen && <ShortcutHelp onClose={() => setIsShortcutsOpen(false)} />}
+        {sharedPattern && (
+          <div className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm p-5 flex flex-col gap-4" role="dialog" aria-label="Open shared pattern">
+              <div>
+                <h2 className="font-bold text-slate-800">Open shared pattern?</h2>
+                <p className="text-sm text-slate-600 mt-1">
+                  "{sharedPattern.metadata.title}"{sharedPattern.metadata.author && ` by ${sharedPattern.metadata.author}`},
+                  {' '}{Object.keys(sharedPattern.cells).length} beads.
+                </p>
+                {hasDesign && <p className="text-xs text-slate-400 mt-2">This replaces the design you have open. Save it to My Patterns first to keep it.</p>}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setSharedPattern(null)} className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100">Keep mine</button>
+                <button
+                  onClick={() => { loadPattern(sharedPattern); setSharedPattern(null); }}
+                  className="px-4 py-2 rounded-lg bg-brand-500 text-white hover:bg-brand-600"
+                >
+                  Open
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+        {notice && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 max-w-md w-[calc(100%-2rem)] bg-white border border-slate-200 rounded-xl shadow-xl p-4 flex gap-3" role="status">
+            <p className="flex-1 text-sm text-slate-600">{notice}</p>
+            <button onClick={() => setNotice(null)} aria-label="Dismiss" className="p-1 text-slate-400 hover:text-slate-600 self-start">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+        {importError && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 max-w-md w-[calc(100%-2rem)] bg-white border border-rose-200 rounded-xl shadow-xl p-4 flex gap-3" role="alert">
+            <p className="flex-1 text-sm text-rose-600 whitespace-pre-line">{importError}</p>
+            <button onClick={() => setImportError(null)} aria-label="Dismiss" className="p-1 text-slate-400 hover:text-slate-600 self-start">
+              <X size={16} />
+            </button>
+          </div>
+        )}
       </main>
 
       {/* Footer Controls (Toolbox) - Only in 2D/3D */}
@@ -108,28 +404,93 @@ function App() {
         <footer className="bg-white border-t border-slate-200 p-2 pb-4 sm:pb-2 shrink-0 z-20 flex flex-col gap-2">
             
             {/* Tools Row */}
-            <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide items-center justify-center">
+            <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide items-center justify-center" role="toolbar" aria-label="Tools">
                 <div className="flex bg-slate-100 p-1 rounded-full">
-                    <button onClick={() => setTool('pencil')} className={clsx("p-3 rounded-full", activeTool === 'pencil' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+                    <button {...toolProps('pencil')} className={clsx("p-3 rounded-full", activeTool === 'pencil' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
                         <PenTool size={18} />
                     </button>
-                    <button onClick={() => setTool('fill')} className={clsx("p-3 rounded-full", activeTool === 'fill' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+                    <button {...toolProps('fill')} className={clsx("p-3 rounded-full", activeTool === 'fill' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
                         <PaintBucket size={18} />
                     </button>
-                    <button onClick={() => setTool('eraser')} className={clsx("p-3 rounded-full", activeTool === 'eraser' ? "bg-white shadow text-rose-500" : "text-slate-500")}>
+                    <button {...toolProps('eraser')} className={clsx("p-3 rounded-full", activeTool === 'eraser' ? "bg-white shadow text-rose-500" : "text-slate-500")}>
                         <Eraser size={18} />
                     </button>
+                    <button {...toolProps('eyedropper')} className={clsx("p-3 rounded-full", activeTool === 'eyedropper' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+                        <Pipette size={18} />
+                    </button>
+                </div>
+                <div className="flex bg-slate-100 p-1 rounded-full">
+                    <button {...toolProps('select')} className={clsx("p-3 rounded-full", activeTool === 'select' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+                        <BoxSelect size={18} />
+                    </button>
+                    <button {...toolProps('line')} className={clsx("p-3 rounded-full", activeTool === 'line' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+                        <Slash size={18} />
+                    </button>
+                    <button {...toolProps('rect')} className={clsx("p-3 rounded-full", activeTool === 'rect' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+                        <Square size={18} />
+                    </button>
+                    <button {...toolProps('ellipse')} className={clsx("p-3 rounded-full", activeTool === 'ellipse' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+                        <Circle size={18} />
+                    </button>
+                    <button {...toolProps('stamp')} className={clsx("p-3 rounded-full", activeTool === 'stamp' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+                        <Stamp size={18} />
+                    </button>
                 </div>
+                {(activeTool === 'rect' || activeTool === 'ellipse') && (
+                    <button 
+                        onClick={() => setShapeFilled(!shapeFilled)}
+                        className={clsx("px-3 py-2 rounded-full text-sm font-medium", shapeFilled ? "bg-brand-500 text-white" : "bg-slate-100 text-slate-600")}
+                    >
+                        {shapeFilled ? 'Filled' : 'Outline'}
+                    </button>
+                )}
+                {activeTool === 'stamp' && (
+                    <select 
+                        value={selectedStampId}
+                        onChange={(e) => setStamp(e.target.value)}
+                        className="px-3 py-2 rounded-full text-sm bg-slate-100 text-slate-600"
+                        aria-label="Stamp shape"
+                    >
+                        {STAMPS.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                )}
+                {activeTool === 'select' && (
+                    <div className="flex bg-slate-100 p-1 rounded-full">
+                        <button onClick={copySelection} disabled={!selection} aria-label="Copy" className="p-3 rounded-full text-slate-500 disabled:opacity-40"><Copy size={18} /></button>
+                        <button onClick={cutSelection} disabled={!selection} aria-label="Cut" className="p-3 rounded-full text-slate-500 disabled:opacity-40"><Scissors size={18} /></button>
+                        <button onClick={pasteClipboard} disabled={!clipboard} aria-label="Paste" className="p-3 rounded-full text-slate-500 disabled:opacity-40"><ClipboardPaste size={18} /></button>
+                        <button onClick={() => flipSelection('horizontal')} disabled={!selection} aria-label="Flip horizontally" className="p-3 rounded-full text-slate-500 disabled:opacity-40"><FlipHorizontal size={18} /></button>
+                        <button onClick={() => flipSelection('vertical')} disabled={!selection} aria-label="Flip vertically" className="p-3 rounded-full text-slate-500 disabled:opacity-40"><FlipVertical size={18} /></button>
+                        <button onClick={rotateSelection} disabled={!selection} aria-label="Rotate 90°" className="p-3 rounded-full text-slate-500 disabled:opacity-40"><RotateCw size={18} /></button>
+                        {floating && (
+                            <button onClick={commitFloating} aria-label="Place" className="p-3 rounded-full bg-white shadow text-brand-600"><Check size={18} /></button>
+                        )}
+                    </div>
+                )}
                 <div className="w-px h-8 bg-slate-300 mx-2"></div>
-                <button onClick={clearBoard} className="p-3 text-slate-400 hover:text-red-500"><Trash2 size={18} /></button>
+                <select 
+                    value={symmetry}
+                    onChange={(e) => setSymmetry(e.target.value as SymmetryMode)}
+                    className={clsx("px-3 py-2 rounded-full text-sm", symmetry !== 'none' ? "bg-rose-100 text-rose-600" : "bg-slate-100 text-slate-600")}
+                    aria-label="Symmetry"
+                >
+                    <option value="none">No mirror</option>
+                    <option value="horizontal">Mirror left-right</option>
+                    <option value="vertical">Mirror top-bottom</option>
+                    <option value="both">Mirror both</option>
+                    <option value="rotational">4-way rotate</option>
+                </select>
+                <button onClick={clearBoard} aria-label="Clear board" title="Clear board" className="p-3 text-slate-400 hover:text-red-500"><Trash2 size={18} /></button>
             </div>
 
             {/* Colors Row */}
-            <div className="flex gap-2 overflow-x-auto px-4 pb-2 scrollbar-hide justify-center">
-                {palette.map(color => (
+            <div className="flex gap-2 overflow-x-auto px-4 pb-2 scrollbar-hide justify-center" role="toolbar" aria-label="Colors">
+                {palette.map((color, i) => (
                     <button
                         key={color.id}
                         onClick={() => setColor(color.id)}
+                        aria-pressed={selectedColorId === color.id}
+                        title={i < 10 ? `${color.name} (${(i + 1) % 10})` : color.name}
                         className={clsx(
                             "w-10 h-10 rounded-full border-2 shadow-sm transition-transform active:scale-90 flex-shrink-0",
                             selectedColorId === color.id ? "border-slate-800 scale-110" : "border-white"
@@ -138,6 +499,13 @@ function App() {
                         aria-label={color.name}
                     />
                 ))}
+                <button
+                    onClick={() => setIsPaletteOpen(true)}
+                    className="w-10 h-10 rounded-full border-2 border-dashed border-slate-300 text-slate-400 flex items-center justify-center flex-shrink-0 hover:text-slate-600"
+                    aria-label="Edit palette"
+                >
+                    <Palette size={18} />
+                </button>
             </div>
         </footer>
       )}
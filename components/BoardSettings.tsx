@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { useStore } from '../store';
+import { BoardLattice, BoardShape, BoardSpec, MosaicLayout } from '../types';
+import { BOARD_PRESETS, RemapMode, isSameBoard, makeBoard, remapCells } from '../utils/boards';
+import { BOARD_SHAPES } from '../utils/boardShape';
+import { makeMosaic, mosaicLayout, tileSpec } from '../utils/mosaic';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+
+type BoardForm = Omit<BoardSpec, 'widthMm' | 'heightMm' | 'mosaic'>;
+type NumericField = Exclude<keyof BoardForm, 'shape' | 'lattice'>;
+
+const FIELDS: Array<{ key: NumericField; label: string; step: number; min: number }> = [
+  { key: 'cols', label: 'Columns', step: 1, min: 1 },
+  { key: 'rows', label: 'Rows', step: 1, min: 1 },
+  { key: 'pegPitchMm', label: 'Peg pitch (mm)', step: 0.1, min: 0.5 },
+  { key: 'pegDiameterMm', label: 'Peg diameter (mm)', step: 0.1, min: 0.1 },
+  { key: 'pegHeightMm', label: 'Peg height (mm)', step: 0.5, min: 0.5 },
+  { key: 'marginMm', label: 'Edge margin (mm)', step: 0.5, min: 0 },
+];
+
+export const BoardSettings: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { board, cells, setBoard } = useStore();
+  // The form describes one physical board; the layout repeats it
+  const [form, setForm] = useState<BoardForm>(() => {
+    const { widthMm, heightMm, mosaic, ...rest } = tileSpec(board);
+    return rest;
+  });
+  const [layout, setLayout] = useState<MosaicLayout>(() => mosaicLayout(board));
+  const [mode, setMode] = useState<RemapMode>('center');
+
+  const single = useMemo(() => makeBoard(form), [form]);
+  const draft = useMemo(() => makeMosaic(single, layout), [single, layout]);
+  // Stacked hex boards only line up when each has an even number of rows
+  const hexRowsMismatch = form.lattice === 'hex' && layout.down > 1 && form.rows % 2 !== 0;
+  const isValid = FIELDS.every(f => Number.isFinite(form[f.key]) && form[f.key] >= f.min)
+    && Number.isInteger(form.cols) && Number.isInteger(form.rows)
+    && [layout.across, layout.down].every(n => Number.isInteger(n) && n >= 1)
+    && !hexRowsMismatch;
+
+  // Pegs that would fall off the new board
+  const lostPegs = useMemo(
+    () => isValid ? cells.size - remapCells(cells, board, draft, mode).size : 0,
+    [cells, board, draft, mode, isValid]
+  );
+
+  const applyPreset = (preset: BoardSpec) => {
+    const { widthMm, heightMm, mosaic, ...rest } = preset;
+    setForm(rest);
+  };
+
+  const handleApply = () => {
+    if (!isValid) return;
+    if (!isSameBoard(draft, board)) setBoard(draft, mode);
+    onClose();
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Board settings"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-bold text-slate-800">Board</h2>
+          <button onClick={onClose} aria-label="Close board settings" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Presets */}
+        <div className="grid grid-cols-3 gap-2 p-5">
+          {BOARD_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => applyPreset(preset.board)}
+              className={clsx(
+                "rounded-lg border px-2 py-2 text-left transition",
+                isSameBoard(preset.board, single) ? "border-brand-500 bg-brand-50" : "border-slate-200 hover:bg-slate-50"
+              )}
+            >
+              <div className="text-sm font-medium text-slate-700">{preset.name}</div>
+              <div className="text-xs text-slate-400">{preset.description}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* Custom Spec */}
+        <div className="grid grid-cols-2 gap-3 px-5">
+          {FIELDS.map(field => (
+            <label key={field.key} className="flex flex-col gap-1 text-xs text-slate-500">
+              {field.label}
+              <input
+                type="number"
+                min={field.min}
+                step={field.step}
+                value={form[field.key]}
+                onChange={(e) => setForm(f => ({ ...f, [field.key]: Number(e.target.value) }))}
+                className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+              />
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-center justify-between gap-3 px-5 pt-3 text-xs text-slate-500">
+          Board shape
+          <select
+            value={form.shape || 'rect'}
+            onChange={(e) => setForm(f => ({ ...f, shape: e.target.value as BoardShape }))}
+            className="px-3 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+          >
+            {BOARD_SHAPES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </label>
+
+        <label className="flex items-center justify-between gap-3 px-5 pt-3 text-xs text-slate-500">
+          Peg layout
+          <select
+            value={form.lattice || 'square'}
+            onChange={(e) => setForm(f => ({ ...f, lattice: e.target.value as BoardLattice }))}
+            className="px-3 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+          >
+            <option value="square">Square grid</option>
+            <option value="hex">Hex (offset rows)</option>
+          </select>
+        </label>
+
+        {/* Mosaic: several boards joined into one design */}
+        <div className="grid grid-cols-2 gap-3 px-5 pt-3">
+          <label className="flex flex-col gap-1 text-xs text-slate-500">
+            Boards across
+            <input
+              type="number"
+              min={1}
+              max={10}
+              step={1}
+              value={layout.across}
+              onChange={(e) => setLayout(l => ({ ...l, across: Number(e.target.value) }))}
+              className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-500">
+            Boards down
+            <input
+              type="number"
+              min={1}
+              max={10}
+              step={1}
+              value={layout.down}
+              onChange={(e) => setLayout(l => ({ ...l, down: Number(e.target.value) }))}
+              className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+            />
+          </label>
+        </div>
+        {hexRowsMismatch && (
+          <p className="px-5 pt-2 text-xs text-rose-500">Hex boards need an even number of rows to stack.</p>
+        )}
+
+        <div className="px-5 pt-3 text-xs text-slate-500">
+          Board size: {tileSpec(draft).widthMm.toFixed(1)} × {tileSpec(draft).heightMm.toFixed(1)} mm
+          {draft.mosaic && (
+            <> · {layout.across * layout.down} boards, {draft.cols} × {draft.rows} pegs in total.
+            Joined boards keep the peg pitch across the seams, so the edge margin is set for you.</>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-5 py-4">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as RemapMode)}
+            className="px-3 py-2 rounded-full text-sm bg-slate-100 text-slate-600"
+            aria-label="Existing pegs"
+          >
+            <option value="center">Keep design centered</option>
+            <option value="crop">Keep top-left corner</option>
+          </select>
+          {lostPegs > 0 && (
+            <span className="text-xs text-rose-500">{lostPegs} pegs will be removed</span>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 pb-5">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100">Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={!isValid}
+            className="px-4 py-2 rounded-lg bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { useBuildGuide, useStore } from '../store';
+import { BUILD_ORDERS, BuildOrder, describeStep } from '../utils/buildSteps';
+import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+
+export const BuildGuide: React.FC = () => {
+  const { guide: settings, palette, startGuide, setGuideStep, stopGuide } = useStore();
+  const guide = useBuildGuide();
+  if (!settings || !guide) return null;
+
+  const { steps, current, cells } = guide;
+  const step = steps[current];
+
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 w-[calc(100%-2rem)] max-w-md bg-white rounded-xl shadow-xl border border-slate-100 p-3 flex flex-col gap-2"
+      role="region"
+      aria-label="Build guide"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <select
+          value={settings.order}
+          onChange={(e) => startGuide(e.target.value as BuildOrder)}
+          className="px-2 py-1 rounded bg-slate-100 text-slate-700 text-sm"
+          aria-label="Build order"
+        >
+          {BUILD_ORDERS.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+        </select>
+        <button onClick={stopGuide} aria-label="Close build guide" className="p-1 text-slate-400 hover:text-slate-600">
+          <X size={16} />
+        </button>
+      </div>
+
+      {step ? (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setGuideStep(current - 1)}
+            disabled={current === 0}
+            aria-label="Previous step"
+            className="p-2 rounded-full bg-slate-100 text-slate-600 disabled:opacity-30"
+          >
+            <ChevronLeft size={20} />
+          </button>
+          <div className="flex-1 text-center" aria-live="polite">
+            <div className="text-xs text-slate-400">Step {current + 1} of {steps.length}</div>
+            <div className="font-bold text-slate-800">{step.title}</div>
+            <div className="text-sm text-slate-500">{describeStep(step, cells, palette)}</div>
+          </div>
+          <button
+            onClick={() => setGuideStep(current + 1)}
+            disabled={current === steps.length - 1}
+            aria-label="Next step"
+            className="p-2 rounded-full bg-brand-500 text-white disabled:opacity-30"
+          >
+            <ChevronRight size={20} />
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500 text-center">Add some pegs to get build steps.</p>
+      )}
+    </div>
+  );
+};
@@ -1,151 +1,572 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { useStore } from '../store';
-import { parseKey, makeKey } from '../utils/coords';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { useBuildGuide, useCompositeCells, useStore } from '../store';
+import { CellKey, SymmetryMode } from '../types';
+import { parseKey, nearestPeg } from '../utils/coords';
+import { GridPoint, isShapeTool, shapePoints } from '../utils/shapes';
+import { rectContains, rectFromCorners } from '../utils/selection';
+import { isPegOnBoard } from '../utils/boardShape';
+import { resolveLayers } from '../utils/layers';
+import {
+  BoardBase, CELL_SIZE, SceneBead, buildBoardBase, buildSceneBeads, paintBeads, paintBoardBase,
+  pegCenter as scenePegCenter
+} from '../utils/boardRender';
+import { Viewport, centerOn, fitViewport, panBy, screenToWorld, worldToScreen, zoomAt } from '../utils/viewport';
+import { isTextEntry, matchShortcut } from '../utils/shortcuts';
+import { Minimap } from './Minimap';
+import { Maximize } from 'lucide-react';
+
+const ZOOM_STEP = 1.25; // Zoom buttons
+const WHEEL_ZOOM_SPEED = 0.0015; // Per pixel of wheel scroll
+const PINCH_ZOOM_SPEED = 0.01; // Trackpad pinches arrive as ctrl + wheel with small deltas
+
+// Arrow key directions, in the order of the "cursor" shortcut's keys
+const CURSOR_STEPS: Array<[number, number]> = [[0, -1], [1, 0], [0, 1], [-1, 0]];
+const CURSOR_JUMP = 5; // Pegs per arrow press with Shift
+
+// Past this many changed pegs at once (fill, clear, undo) a full repaint is cheaper
+const MAX_DIRTY_PEGS = 1500;
+
+/**
+ * What the bead canvas currently shows, to tell a full repaint from a few changed pegs.
+ */
+interface PaintedFrame {
+  view: Viewport;
+  width: number;
+  height: number;
+  dpr: number;
+  base: BoardBase;
+  symmetry: SymmetryMode;
+  faded: Set<CellKey> | undefined;
+  beads: Map<CellKey, string>; // Colors and opacities per peg, stacked layers joined
+}
+
+const beadSignatures = (beads: SceneBead[]) => {
+  const signatures = new Map<CellKey, string>();
+  beads.forEach(({ key, color, opacity }) => {
+    const previous = signatures.get(key);
+    signatures.set(key, previous ? `${previous}|${color}/${opacity}` : `${color}/${opacity}`);
+  });
+  return signatures;
+};
+
+const paintSymmetryAxes = (ctx: CanvasRenderingContext2D, base: BoardBase, symmetry: SymmetryMode, scale: number) => {
+  if (symmetry === 'none') return;
+  const midX = base.width / 2;
+  const midY = base.height / 2;
+  ctx.strokeStyle = '#f43f5e'; // Rose 500
+  ctx.lineWidth = 2 / scale;
+  ctx.setLineDash([8 / scale, 6 / scale]);
+  ctx.beginPath();
+  if (symmetry === 'horizontal' || symmetry === 'both' || symmetry === 'rotational') {
+    ctx.moveTo(midX, 0);
+    ctx.lineTo(midX, base.height);
+  }
+  if (symmetry === 'vertical' || symmetry === 'both' || symmetry === 'rotational') {
+    ctx.moveTo(0, midY);
+    ctx.lineTo(base.width, midY);
+  }
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  if (symmetry === 'rotational') {
+    ctx.fillStyle = '#f43f5e';
+    ctx.beginPath();
+    ctx.arc(midX, midY, base.cellSize / 5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+// Sizes a canvas to the view; changing the size clears it, so only when needed
+const fitCanvas = (canvas: HTMLCanvasElement, width: number, height: number, dpr: number) => {
+  const w = Math.round(width * dpr);
+  const h = Math.round(height * dpr);
+  if (canvas.width !== w || canvas.height !== h) {
+    canvas.width = w;
+    canvas.height = h;
+  }
+};
 
 export const Editor2D: React.FC = () => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Beads over a cached board background, with previews and markers on a separate canvas on top
+  const beadCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const background = useRef<HTMLCanvasElement | null>(null);
+  const painted = useRef<PaintedFrame | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const { board, cells, palette, setCell, fill, activeTool, selectedColorId } = useStore();
+  const { 
+    board, cells, layers, activeLayerId, palette, setCell, fill, drawShape, 
+    activeTool, selectedColorId, shapeFilled, selectedStampId,
+    selection, floating, setSelection, liftSelection, moveFloating, commitFloating, symmetry,
+    beginStroke, endStroke, cancelStroke, pickColor
+  } = useStore();
+  const composite = useCompositeCells();
   
-  // Viewport state for pan/zoom
-  const [scale, setScale] = useState(1);
-  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  // Viewport state for pan/zoom; null until the container has been measured
+  const [view, setView] = useState<Viewport | null>(null);
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
   const [isDragging, setIsDragging] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const [spaceHeld, setSpaceHeld] = useState(false);
   const [lastPos, setLastPos] = useState({ x: 0, y: 0 });
 
-  // Render Loop
+  // Keyboard cursor, shown once the arrow keys are used, and what screen readers hear about it
+  const [cursor, setCursor] = useState<GridPoint | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  // Touches currently down, and the last two-finger midpoint and spread while pinching
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ x: number; y: number; distance: number } | null>(null);
+
+  // Shape tools: drag from start to end, committed on pointer up
+  const [shapeStart, setShapeStart] = useState<GridPoint | null>(null);
+  const [shapeEnd, setShapeEnd] = useState<GridPoint | null>(null);
+
+  // Select tool: rubber-band anchor, or grab offset while dragging floating pegs
+  const [selectAnchor, setSelectAnchor] = useState<GridPoint | null>(null);
+  const [grabOffset, setGrabOffset] = useState<GridPoint | null>(null);
+
+  // Build guide: future steps fade out, the current one gets a ring
+  const guide = useBuildGuide();
+  const guideKeys = useMemo(() => {
+    if (!guide || guide.steps.length === 0) return null;
+    return {
+      current: new Set(guide.steps[guide.current].cells),
+      future: new Set(guide.steps.slice(guide.current + 1).flatMap(step => step.cells)),
+    };
+  }, [guide]);
+
+  const previewPoints = useMemo(() => {
+    if (!shapeStart || !shapeEnd || !isShapeTool(activeTool)) return [];
+    return shapePoints(activeTool, shapeStart, shapeEnd, shapeFilled, selectedStampId);
+  }, [shapeStart, shapeEnd, activeTool, shapeFilled, selectedStampId]);
+
+  // Board and beads, shared with the image exports. The board stays put while painting.
+  const base = useMemo(() => buildBoardBase(board), [board]);
+  const beads = useMemo(
+    () => buildSceneBeads(board, resolveLayers(layers, activeLayerId, cells), palette),
+    [board, cells, layers, activeLayerId, palette]
+  );
+  const scene = useMemo(() => ({ ...base, beads }), [base, beads]);
+  const colorById = useMemo(() => new Map(palette.map(p => [p.id, p.hex])), [palette]);
+
+  // Container size, for the canvas and for fitting the board
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit the whole board on screen at first, and whenever its size changes
+  const hasSize = viewSize.width > 0 && viewSize.height > 0;
+  useEffect(() => {
+    if (hasSize) setView(fitViewport(scene.width, scene.height, viewSize.width, viewSize.height));
+  }, [scene.width, scene.height, hasSize]);
+
+  // Wheel zooms around the cursor. Registered by hand: React's wheel listener can't preventDefault.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const pixels = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      const factor = Math.exp(-pixels * (e.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED));
+      setView(v => v && zoomAt(v, factor, e.clientX - rect.left, e.clientY - rect.top));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Hold space to pan with any button
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Not on buttons either, where space presses the button
+      if (e.code !== 'Space' || isTextEntry(e.target) || e.target instanceof HTMLButtonElement) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const release = () => setSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+    };
+  }, []);
+
+  // Render Loop: board background and beads. Only pegs that changed since the last frame are repainted.
+  useEffect(() => {
+    const canvas = beadCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !view || !hasSize) return;
 
     // Handle high DPI
     const dpr = window.devicePixelRatio || 1;
-    const rect = containerRef.current?.getBoundingClientRect();
-    if (!rect) return;
-    
-    canvas.width = rect.width * dpr;
-    canvas.height = rect.height * dpr;
-    ctx.scale(dpr, dpr);
-
-    // Clear
-    ctx.fillStyle = '#f8fafc'; // Slate 50
-    ctx.fillRect(0, 0, rect.width, rect.height);
-
-    // Transform
-    ctx.save();
-    ctx.translate(offset.x, offset.y);
-    ctx.scale(scale, scale);
-
-    // Center grid in view initially if reset
-    const cellSize = 20; // Base pixel size for rendering
-    const gridWidth = board.cols * cellSize;
-    const gridHeight = board.rows * cellSize;
-    const startX = (rect.width / scale - gridWidth) / 2; 
-    const startY = (rect.height / scale - gridHeight) / 2;
-
-    // Draw Grid Background
-    ctx.fillStyle = '#e2e8f0'; // Slate 200
-    ctx.fillRect(startX, startY, gridWidth, gridHeight);
-
-    // Draw Grid Lines (optional optimization: skip if zoomed out too far)
-    ctx.strokeStyle = '#cbd5e1'; // Slate 300
-    ctx.lineWidth = 1 / scale;
-    ctx.beginPath();
-    for (let i = 0; i <= board.cols; i++) {
-        ctx.moveTo(startX + i * cellSize, startY);
-        ctx.lineTo(startX + i * cellSize, startY + gridHeight);
-    }
-    for (let j = 0; j <= board.rows; j++) {
-        ctx.moveTo(startX, startY + j * cellSize);
-        ctx.lineTo(startX + gridWidth, startY + j * cellSize);
-    }
-    ctx.stroke();
-
-    // Draw Peg Holes (Empty)
-    ctx.fillStyle = '#94a3b8'; // Slate 400
-    for (let x = 0; x < board.cols; x++) {
-        for (let y = 0; y < board.rows; y++) {
-            const cx = startX + x * cellSize + cellSize / 2;
-            const cy = startY + y * cellSize + cellSize / 2;
-            const r = (cellSize / 4); // Hole radius
+    const { width, height } = viewSize;
+    const { scale } = view;
+    const signatures = beadSignatures(beads);
+    const faded = guideKeys?.future;
+    const worldTransform = () => ctx.setTransform(dpr * scale, 0, 0, dpr * scale, dpr * view.x, dpr * view.y);
+
+    const last = painted.current;
+    const sameFrame = !!last && last.view === view && last.width === width && last.height === height
+        && last.dpr === dpr && last.base === base && last.symmetry === symmetry;
+
+    const dirty = new Set<CellKey>();
+    if (sameFrame) {
+        signatures.forEach((signature, key) => { if (last.beads.get(key) !== signature) dirty.add(key); });
+        last.beads.forEach((_, key) => { if (!signatures.has(key)) dirty.add(key); });
+        // The guide's sets are rebuilt on every edit, so compare what they hold
+        faded?.forEach(key => { if (!last.faded?.has(key)) dirty.add(key); });
+        last.faded?.forEach(key => { if (!faded?.has(key)) dirty.add(key); });
+    }
+
+    if (sameFrame && dirty.size === 0) return;
+    if (sameFrame && dirty.size <= MAX_DIRTY_PEGS && background.current) {
+        // Beads reach into neighboring cells with their shadows: restore the background
+        // around each changed peg, then repaint every bead near it
+        const nearby = new Set<CellKey>();
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.beginPath();
+        dirty.forEach(key => {
+            const { x, y } = parseKey(key);
+            for (let dx = -2; dx <= 2; dx++) {
+                for (let dy = -2; dy <= 2; dy++) nearby.add(`${x + dx},${y + dy}`);
+            }
+            const [wx, wy] = scenePegCenter(board, x, y);
+            const [sx, sy] = worldToScreen(view, wx - CELL_SIZE, wy - CELL_SIZE);
+            const size = CELL_SIZE * 2 * scale;
+            ctx.rect(Math.floor(sx * dpr), Math.floor(sy * dpr), Math.ceil(size * dpr) + 2, Math.ceil(size * dpr) + 2);
+        });
+        ctx.clip();
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(background.current, 0, 0);
+        worldTransform();
+        paintBeads(ctx, { ...base, beads: beads.filter(b => nearby.has(b.key)) }, faded);
+        ctx.restore();
+    } else {
+        fitCanvas(canvas, width, height, dpr);
+
+        // Only what's on screen; a zoomed-in 100 × 100 board shows a fraction of its pegs
+        const [left, top] = screenToWorld(view, -CELL_SIZE * scale, -CELL_SIZE * scale);
+        const [right, bottom] = screenToWorld(view, width + CELL_SIZE * scale, height + CELL_SIZE * scale);
+        const onScreen = ([cx, cy]: [number, number]) => cx >= left && cx <= right && cy >= top && cy <= bottom;
+
+        // Cached background: board, holes and symmetry axes
+        const bg = background.current ?? document.createElement('canvas');
+        background.current = bg;
+        fitCanvas(bg, width, height, dpr);
+        const bgCtx = bg.getContext('2d')!;
+        bgCtx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        bgCtx.fillStyle = '#f8fafc'; // Slate 50
+        bgCtx.fillRect(0, 0, width, height);
+        bgCtx.translate(view.x, view.y);
+        bgCtx.scale(scale, scale);
+        paintBoardBase(bgCtx, { ...base, holes: base.holes.filter(onScreen), beads: [] }, 1 / scale);
+        paintSymmetryAxes(bgCtx, base, symmetry, scale);
+
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(bg, 0, 0);
+        worldTransform();
+        // Draw Active Cylinders, bottom layer first
+        paintBeads(ctx, { ...base, beads: beads.filter(b => onScreen([b.cx, b.cy])) }, faded);
+    }
+
+    painted.current = { view, width, height, dpr, base, symmetry, faded, beads: signatures };
+  }, [board, base, beads, view, viewSize, hasSize, symmetry, guideKeys]);
+
+  // Overlay: build step rings, shape preview, floating pegs, selection and keyboard cursor
+  useEffect(() => {
+    const canvas = overlayCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !view || !hasSize) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    fitCanvas(canvas, viewSize.width, viewSize.height, dpr);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(dpr * view.scale, 0, 0, dpr * view.scale, dpr * view.x, dpr * view.y);
+
+    const { scale } = view;
+    const cellSize = CELL_SIZE;
+    const pegCenter = (x: number, y: number) => scenePegCenter(board, x, y);
+
+    // Current Build Step
+    if (guideKeys) {
+        ctx.strokeStyle = '#f59e0b'; // Amber 500
+        ctx.lineWidth = 3 / scale;
+        guideKeys.current.forEach(key => {
+            const { x, y } = parseKey(key);
+            const [cx, cy] = pegCenter(x, y);
+            ctx.beginPath();
+            ctx.arc(cx, cy, cellSize / 2, 0, Math.PI * 2);
+            ctx.stroke();
+        });
+    }
+
+    // Shape Preview Overlay
+    if (previewPoints.length > 0) {
+        ctx.globalAlpha = 0.5;
+        ctx.fillStyle = colorById.get(selectedColorId) || '#000';
+        previewPoints.forEach(({ x, y }) => {
+            if (!isPegOnBoard(x, y, board)) return;
+            const [cx, cy] = pegCenter(x, y);
             ctx.beginPath();
-            ctx.arc(cx, cy, r, 0, Math.PI * 2);
+            ctx.arc(cx, cy, (cellSize / 2) - 2, 0, Math.PI * 2);
             ctx.fill();
-        }
+        });
+        ctx.globalAlpha = 1;
     }
 
-    // Draw Active Cylinders
-    cells.forEach((colorId, key) => {
-        const { x, y } = parseKey(key);
-        const color = palette.find(p => p.id === colorId)?.hex || '#000';
-        
-        const cx = startX + x * cellSize + cellSize / 2;
-        const cy = startY + y * cellSize + cellSize / 2;
-        const r = (cellSize / 2) - 2; // Cylinder radius
-
-        ctx.fillStyle = color;
-        ctx.shadowColor = 'rgba(0,0,0,0.2)';
-        ctx.shadowBlur = 4;
-        ctx.shadowOffsetY = 2;
-        
-        ctx.beginPath();
-        ctx.arc(cx, cy, r, 0, Math.PI * 2);
-        ctx.fill();
-        
-        // Inner hole
-        ctx.shadowColor = 'transparent';
-        ctx.globalCompositeOperation = 'destination-out';
-        ctx.beginPath();
-        ctx.arc(cx, cy, r * 0.4, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.globalCompositeOperation = 'source-over';
-        
-        // Highlight (Fake 3D)
-        ctx.fillStyle = 'rgba(255,255,255,0.3)';
-        ctx.beginPath();
-        ctx.arc(cx - r*0.2, cy - r*0.2, r*0.3, 0, Math.PI * 2);
-        ctx.fill();
-    });
+    // Floating (pasted / moved) pegs
+    if (floating) {
+        ctx.globalAlpha = 0.75;
+        floating.cells.forEach((colorId, key) => {
+            const { x, y } = parseKey(key);
+            const bx = floating.x + x;
+            const by = floating.y + y;
+            if (!isPegOnBoard(bx, by, board)) return;
+            ctx.fillStyle = colorById.get(colorId) || '#000';
+            const [cx, cy] = pegCenter(bx, by);
+            ctx.beginPath();
+            ctx.arc(cx, cy, (cellSize / 2) - 2, 0, Math.PI * 2);
+            ctx.fill();
+        });
+        ctx.globalAlpha = 1;
+    }
 
-    ctx.restore();
+    // Selection Marquee
+    if (selection) {
+        ctx.strokeStyle = '#0ea5e9'; // Sky 500
+        ctx.lineWidth = 2 / scale;
+        ctx.setLineDash([6 / scale, 4 / scale]);
+        // Bounds of the corner pegs; on hex boards the first two rows cover both row offsets
+        const rowStarts = [selection.y, selection.y + 1]
+            .filter(r => r < selection.y + selection.height)
+            .map(r => pegCenter(selection.x, r)[0]);
+        const left = Math.min(...rowStarts) - cellSize / 2;
+        const right = Math.max(...rowStarts) + (selection.width - 0.5) * cellSize;
+        const top = pegCenter(selection.x, selection.y)[1] - cellSize / 2;
+        const bottom = pegCenter(selection.x, selection.y + selection.height - 1)[1] + cellSize / 2;
+        ctx.strokeRect(left, top, right - left, bottom - top);
+        ctx.setLineDash([]);
+    }
 
-  }, [board, cells, palette, scale, offset]);
+    // Keyboard Cursor, dark and light so it shows on any bead
+    if (cursor) {
+        const [cx, cy] = pegCenter(cursor.x, cursor.y);
+        const half = cellSize / 2;
+        ctx.strokeStyle = '#0f172a'; // Slate 900
+        ctx.lineWidth = 3 / scale;
+        ctx.strokeRect(cx - half, cy - half, cellSize, cellSize);
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 1 / scale;
+        ctx.strokeRect(cx - half, cy - half, cellSize, cellSize);
+    }
+  }, [board, colorById, view, viewSize, hasSize, previewPoints, selectedColorId, selection, floating, guideKeys, cursor]);
 
   // Interaction Logic
-  const handleInteract = (clientX: number, clientY: number) => {
+  const clientToGrid = (clientX: number, clientY: number): GridPoint | null => {
     const rect = containerRef.current?.getBoundingClientRect();
-    if (!rect) return;
+    if (!rect || !view) return null;
 
-    const cellSize = 20;
-    const gridWidth = board.cols * cellSize;
-    const gridHeight = board.rows * cellSize;
-    
     // Reverse Transform
-    const relativeX = (clientX - rect.left - offset.x) / scale;
-    const relativeY = (clientY - rect.top - offset.y) / scale;
+    const [worldX, worldY] = screenToWorld(view, clientX - rect.left, clientY - rect.top);
 
-    const startX = (rect.width / scale - gridWidth) / 2; 
-    const startY = (rect.height / scale - gridHeight) / 2;
+    // Snap to the closest peg center (lattice-aware)
+    return nearestPeg(worldX / CELL_SIZE - 0.5, worldY / CELL_SIZE - 0.5, board);
+  };
 
-    const gridX = Math.floor((relativeX - startX) / cellSize);
-    const gridY = Math.floor((relativeY - startY) / cellSize);
+  // Midpoint (in container pixels) and spread of the first two touches
+  const pinchState = () => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const [a, b] = Array.from(pointers.current.values());
+    return {
+      x: (a.x + b.x) / 2 - rect.left,
+      y: (a.y + b.y) / 2 - rect.top,
+      distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+    };
+  };
+
+  // Drops a drag in progress without committing it
+  const cancelDrag = () => {
+    setShapeStart(null);
+    setShapeEnd(null);
+    setSelectAnchor(null);
+    setGrabOffset(null);
+    setIsDragging(false);
+    cancelStroke();
+  };
 
-    if (gridX >= 0 && gridX < board.cols && gridY >= 0 && gridY < board.rows) {
+  const handleInteract = (clientX: number, clientY: number) => {
+    const point = clientToGrid(clientX, clientY);
+    if (!point) return;
+    const { x: gridX, y: gridY } = point;
+
+    if (isPegOnBoard(gridX, gridY, board)) {
         if (activeTool === 'fill') {
             fill(gridX, gridY);
+        } else if (activeTool === 'eyedropper') {
+            pickColor(gridX, gridY);
         } else {
             setCell(gridX, gridY);
         }
     }
   };
 
+  const zoomBy = (factor: number) => setView(v => v && zoomAt(v, factor, viewSize.width / 2, viewSize.height / 2));
+
+  // Keyboard Interaction
+  const describePeg = ({ x, y }: GridPoint) => {
+    const colorId = composite.get(`${x},${y}`);
+    const what = !isPegOnBoard(x, y, board)
+        ? 'off the board'
+        : colorId ? palette.find(p => p.id === colorId)?.name ?? 'bead' : 'empty';
+    return `Row ${y + 1}, column ${x + 1}: ${what}`;
+  };
+
+  const moveCursor = (dx: number, dy: number) => {
+    const from = cursor ?? { x: Math.floor(board.cols / 2), y: Math.floor(board.rows / 2) };
+    const next = cursor ? {
+        x: Math.max(0, Math.min(board.cols - 1, from.x + dx)),
+        y: Math.max(0, Math.min(board.rows - 1, from.y + dy)),
+    } : from;
+    setCursor(next);
+    setAnnouncement(describePeg(next));
+
+    // Shapes and selections follow the cursor like a drag
+    if (shapeStart) setShapeEnd(next);
+    else if (selectAnchor) setSelection(rectFromCorners(selectAnchor, next, board));
+
+    // Keep it on screen
+    if (view) {
+        const [wx, wy] = scenePegCenter(board, next.x, next.y);
+        const [sx, sy] = worldToScreen(view, wx, wy);
+        const edge = CELL_SIZE * view.scale;
+        if (sx < edge || sy < edge || sx > viewSize.width - edge || sy > viewSize.height - edge) {
+            setView(centerOn(view, wx, wy, viewSize.width, viewSize.height));
+        }
+    }
+  };
+
+  // Enter: what a click at the cursor would do; shapes and selections take two presses
+  const applyToolAtCursor = () => {
+    if (!cursor) {
+        moveCursor(0, 0);
+        return;
+    }
+    if (isShapeTool(activeTool)) {
+        if (!shapeStart) {
+            setShapeStart(cursor);
+            setShapeEnd(cursor);
+            setAnnouncement('Shape started. Move and press Enter to finish.');
+        } else {
+            if (previewPoints.length > 0) drawShape(previewPoints);
+            setShapeStart(null);
+            setShapeEnd(null);
+            setAnnouncement('Shape placed.');
+        }
+    } else if (activeTool === 'select') {
+        if (floating) {
+            commitFloating();
+            setAnnouncement('Placed.');
+        } else if (!selectAnchor) {
+            setSelectAnchor(cursor);
+            setSelection(rectFromCorners(cursor, cursor, board));
+            setAnnouncement('Selection started. Move and press Enter to finish.');
+        } else {
+            setSelectAnchor(null);
+            setAnnouncement(selection ? `Selected ${selection.width} by ${selection.height} pegs.` : '');
+        }
+    } else if (activeTool === 'eyedropper') {
+        const colorId = composite.get(`${cursor.x},${cursor.y}`);
+        pickColor(cursor.x, cursor.y);
+        setAnnouncement(colorId ? `Picked ${palette.find(p => p.id === colorId)?.name ?? 'color'}.` : 'No bead here.');
+    } else if (isPegOnBoard(cursor.x, cursor.y, board)) {
+        beginStroke();
+        if (activeTool === 'fill') fill(cursor.x, cursor.y);
+        else setCell(cursor.x, cursor.y);
+        endStroke();
+        const after = useStore.getState().cells.get(`${cursor.x},${cursor.y}`);
+        setAnnouncement(after ? `${palette.find(p => p.id === after)?.name ?? 'Bead'} placed.` : 'Emptied.');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const match = matchShortcut(e.nativeEvent, 'editor');
+    if (!match) return;
+    e.preventDefault();
+    if (match.id === 'cursor') {
+        const [dx, dy] = CURSOR_STEPS[match.index % 4];
+        const step = match.index >= 4 ? CURSOR_JUMP : 1;
+        moveCursor(dx * step, dy * step);
+    } else if (match.id === 'place') {
+        applyToolAtCursor();
+    } else if (match.id === 'cancel') {
+        if (shapeStart || selectAnchor) setAnnouncement('Cancelled.');
+        else if (selection) setSelection(null);
+        setShapeStart(null);
+        setShapeEnd(null);
+        setSelectAnchor(null);
+    } else if (match.id === 'zoomIn') {
+        zoomBy(ZOOM_STEP);
+    } else if (match.id === 'zoomOut') {
+        zoomBy(1 / ZOOM_STEP);
+    }
+  };
+
   const handlePointerDown = (e: React.PointerEvent) => {
-    if (e.button === 1 || activeTool === 'line') { // Middle click or specific tools could be drag
-         setIsDragging(true);
+    // Keyboard focus here, so space pans even after clicking a toolbar button
+    containerRef.current?.focus({ preventScroll: true });
+    setCursor(null);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 2) {
+        // A second finger means pinch/pan, not drawing: take back what the first one did
+        cancelDrag();
+        setIsPanning(false);
+        pinch.current = pinchState();
+        return;
+    }
+    if (pointers.current.size > 2) return;
+
+    if (e.button === 1 || spaceHeld) { // Middle click or space + drag pans
+         e.preventDefault();
+         setIsPanning(true);
          setLastPos({ x: e.clientX, y: e.clientY });
+    } else if (activeTool === 'select') {
+        const point = clientToGrid(e.clientX, e.clientY);
+        if (!point) return;
+        if (selection && rectContains(selection, point.x, point.y)) {
+            // Drag the selected pegs
+            if (!floating) liftSelection();
+            setGrabOffset({ x: point.x - selection.x, y: point.y - selection.y });
+        } else {
+            setSelectAnchor(point);
+            setSelection(rectFromCorners(point, point, board));
+        }
+        setIsDragging(true);
+    } else if (isShapeTool(activeTool)) {
+        const point = clientToGrid(e.clientX, e.clientY);
+        if (!point) return;
+        setShapeStart(point);
+        setShapeEnd(point);
+        setIsDragging(true);
+    } else if (activeTool === 'eyedropper') {
+        handleInteract(e.clientX, e.clientY); // A single pick, not a drag
     } else {
+        // Everything painted until pointer up is one undo step
+        beginStroke();
         handleInteract(e.clientX, e.clientY);
         setIsDragging(true); // Allow painting
         setLastPos({ x: e.clientX, y: e.clientY });
@@ -153,37 +574,130 @@ export const Editor2D: React.FC = () => {
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
+    if (pointers.current.has(e.pointerId)) pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    if (pinch.current && pointers.current.size === 2) {
+        // Zoom by the change in spread, keeping the board under the fingers
+        const last = pinch.current;
+        const next = pinchState();
+        setView(v => v && panBy(zoomAt(v, next.distance / last.distance, last.x, last.y), next.x - last.x, next.y - last.y));
+        pinch.current = next;
+        return;
+    }
+    if (isPanning) {
+        setView(v => v && panBy(v, e.clientX - lastPos.x, e.clientY - lastPos.y));
+        setLastPos({ x: e.clientX, y: e.clientY });
+        return;
+    }
     if (!isDragging) return;
 
-    // Pan logic (using two fingers or specific modifier)
-    // For simplicity: If tool is drag (not impl) or if just panning
-    // Here we implement "Paint Drag" for pencil/eraser
+    // Paint drag for pencil/eraser
     if (activeTool === 'pencil' || activeTool === 'eraser') {
          handleInteract(e.clientX, e.clientY);
+    } else if (activeTool === 'select') {
+         const point = clientToGrid(e.clientX, e.clientY);
+         if (!point) return;
+         if (grabOffset) {
+             moveFloating(point.x - grabOffset.x, point.y - grabOffset.y);
+         } else if (selectAnchor) {
+             setSelection(rectFromCorners(selectAnchor, point, board));
+         }
+    } else if (shapeStart) {
+         const point = clientToGrid(e.clientX, e.clientY);
+         if (point && (point.x !== shapeEnd?.x || point.y !== shapeEnd?.y)) setShapeEnd(point);
     }
   };
 
-  const handlePointerUp = () => {
+  // Lifting a finger ends a pinch; the other one doesn't start drawing
+  const releasePointer = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinch.current = null;
+    setIsPanning(false);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    releasePointer(e);
+    if (shapeStart && previewPoints.length > 0) {
+        drawShape(previewPoints);
+    }
+    setShapeStart(null);
+    setShapeEnd(null);
+    setSelectAnchor(null);
+    setGrabOffset(null);
     setIsDragging(false);
+    endStroke();
   };
 
+  const handlePointerLeave = (e: React.PointerEvent) => {
+    releasePointer(e);
+    // Leaving the canvas cancels an in-progress shape
+    setShapeStart(null);
+    setShapeEnd(null);
+    setSelectAnchor(null);
+    setGrabOffset(null);
+    setIsDragging(false);
+    endStroke();
+  };
+
+  const fitToScreen = () => setView(fitViewport(scene.width, scene.height, viewSize.width, viewSize.height));
+
+  // The minimap only helps when part of the board is off screen
+  const [visibleLeft, visibleTop] = view ? screenToWorld(view, 0, 0) : [0, 0];
+  const [visibleRight, visibleBottom] = view ? screenToWorld(view, viewSize.width, viewSize.height) : [0, 0];
+  const isCropped = visibleLeft > 0 || visibleTop > 0 || visibleRight < scene.width || visibleBottom < scene.height;
+
   return (
-    <div ref={containerRef} className="w-full h-full relative overflow-hidden bg-slate-100 touch-none">
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      role="application"
+      aria-label="Pattern board"
+      aria-describedby="editor-keyboard-hint"
+      aria-keyshortcuts="ArrowUp ArrowDown ArrowLeft ArrowRight Enter Escape"
+      onKeyDown={handleKeyDown}
+      className="w-full h-full relative overflow-hidden bg-slate-100 touch-none outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-brand-500"
+    >
+       <p id="editor-keyboard-hint" className="sr-only">
+         Arrow keys move the cursor, Enter uses the current tool there, Escape cancels. Press question mark for all shortcuts.
+       </p>
+       <div className="sr-only" aria-live="polite">{announcement}</div>
+       <canvas ref={beadCanvasRef} className="absolute inset-0 w-full h-full block" aria-hidden="true" />
        <canvas 
-         ref={canvasRef}
-         className="w-full h-full block"
-         style={{ width: '100%', height: '100%' }}
+         ref={overlayCanvasRef}
+         className="absolute inset-0 w-full h-full block"
+         style={{ cursor: isPanning ? 'grabbing' : spaceHeld ? 'grab' : undefined }}
          onPointerDown={handlePointerDown}
          onPointerMove={handlePointerMove}
          onPointerUp={handlePointerUp}
-         onPointerLeave={handlePointerUp}
+         onPointerLeave={handlePointerLeave}
+         onPointerCancel={handlePointerLeave}
        />
+
+       {view && isCropped && (
+         <Minimap
+           scene={scene}
+           view={view}
+           viewWidth={viewSize.width}
+           viewHeight={viewSize.height}
+           onCenter={(wx, wy) => setView(v => v && centerOn(v, wx, wy, viewSize.width, viewSize.height))}
+         />
+       )}
        
        {/* Zoom Controls Overlay */}
-       <div className="absolute bottom-4 right-4 flex gap-2">
-         <button className="bg-white p-2 shadow rounded-full" onClick={() => setScale(s => Math.max(0.5, s - 0.1))}>-</button>
-         <button className="bg-white p-2 shadow rounded-full" onClick={() => setScale(1)}>1:1</button>
-         <button className="bg-white p-2 shadow rounded-full" onClick={() => setScale(s => Math.min(3, s + 0.1))}>+</button>
+       <div className="absolute bottom-4 right-4 flex gap-2 items-center">
+         <button className="bg-white p-2 shadow rounded-full w-9" aria-label="Zoom out" onClick={() => zoomBy(1 / ZOOM_STEP)}>-</button>
+         <button
+           className="bg-white px-2 py-2 shadow rounded-full text-xs text-slate-600 min-w-[3.5rem]"
+           aria-label="Actual size"
+           title="Actual size"
+           onClick={() => view && zoomBy(1 / view.scale)}
+         >
+           {view ? Math.round(view.scale * 100) : 100}%
+         </button>
+         <button className="bg-white p-2 shadow rounded-full w-9" aria-label="Zoom in" onClick={() => zoomBy(ZOOM_STEP)}>+</button>
+         <button className="bg-white p-2 shadow rounded-full" aria-label="Fit to screen" title="Fit to screen" onClick={fitToScreen}>
+           <Maximize size={16} />
+         </button>
        </div>
     </div>
   );
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useStore } from '../store';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+
+export const HistoryPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { history, historyPointer, historyLimit, jumpToHistory, setHistoryLimit } = useStore();
+
+  return (
+    <div className="absolute right-4 top-4 w-64 max-h-[70%] bg-white rounded-xl shadow-xl border border-slate-100 flex flex-col z-30">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-100">
+        <h2 className="font-bold text-slate-700 text-sm">History</h2>
+        <button onClick={onClose} aria-label="Close history" className="p-1 text-slate-400 hover:text-slate-600">
+          <X size={16} />
+        </button>
+      </div>
+
+      <ol className="flex-1 overflow-y-auto py-1 text-sm">
+        <li>
+          <button
+            onClick={() => jumpToHistory(0)}
+            className={clsx("w-full text-left px-4 py-1.5 hover:bg-slate-50", historyPointer === 0 ? "font-bold text-brand-600" : "text-slate-500")}
+          >
+            Start
+          </button>
+        </li>
+        {history.map((entry, i) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => jumpToHistory(i + 1)}
+              className={clsx(
+                "w-full text-left px-4 py-1.5 hover:bg-slate-50",
+                i + 1 === historyPointer && "font-bold text-brand-600",
+                i + 1 > historyPointer ? "text-slate-300" : "text-slate-700"
+              )}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <label className="flex items-center justify-between gap-2 px-4 py-2 border-t border-slate-100 text-xs text-slate-500">
+        Keep last
+        <input
+          type="number"
+          min={1}
+          max={1000}
+          value={historyLimit}
+          onChange={(e) => setHistoryLimit(Number(e.target.value) || 1)}
+          className="w-16 px-2 py-1 rounded bg-slate-100 text-slate-700"
+        />
+        steps
+      </label>
+    </div>
+  );
+};
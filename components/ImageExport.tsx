@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import { resolveLayers } from '../utils/layers';
+import { ImageExportOptions, exportPng, exportSvg } from '../utils/imageExport';
+import { downloadBlob } from '../utils/download';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+
+type ImageFormat = 'png' | 'svg';
+
+const DPI_CHOICES = [72, 150, 300, 600];
+
+export const ImageExport: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { board, cells, layers, activeLayerId, palette, metadata } = useStore();
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [dpi, setDpi] = useState(150);
+  const [options, setOptions] = useState<ImageExportOptions>({ grid: true, legend: true, labels: false });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (key: keyof ImageExportOptions) => setOptions({ ...options, [key]: !options[key] });
+
+  const handleExport = async () => {
+    const resolved = resolveLayers(layers, activeLayerId, cells);
+    const name = metadata.title || 'pattern';
+    setBusy(true);
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([exportSvg(board, resolved, palette, options)], { type: 'image/svg+xml' }), `${name}.svg`);
+      } else {
+        downloadBlob(await exportPng(board, resolved, palette, options, dpi), `${name}.png`);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the picture.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-sm max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Export picture"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-bold text-slate-800">Export Picture</h2>
+          <button onClick={onClose} aria-label="Close picture export" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-4 text-sm">
+          <div className="flex bg-slate-100 rounded-lg p-1 gap-1">
+            {(['png', 'svg'] as ImageFormat[]).map(f => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                className={clsx("flex-1 py-1.5 rounded", format === f ? "bg-white shadow text-brand-600" : "text-slate-500")}
+              >
+                {f === 'png' ? 'PNG (picture)' : 'SVG (scalable)'}
+              </button>
+            ))}
+          </div>
+
+          {format === 'png' ? (
+            <label className="flex flex-col gap-1 text-xs text-slate-500">
+              Resolution
+              <select value={dpi} onChange={(e) => setDpi(Number(e.target.value))} className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm">
+                {DPI_CHOICES.map(d => <option key={d} value={d}>{d} DPI{d === 72 ? ' (screen)' : d === 300 ? ' (print)' : ''}</option>)}
+              </select>
+            </label>
+          ) : (
+            <p className="text-xs text-slate-400">SVG prints at the board's real size and stays sharp at any zoom.</p>
+          )}
+
+          <div className="flex flex-col gap-2 text-slate-700">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.grid} onChange={() => toggle('grid')} /> Grid and empty holes
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.legend} onChange={() => toggle('legend')} /> Color legend with counts
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.labels} onChange={() => toggle('labels')} /> Row and column numbers
+            </label>
+          </div>
+          {error && <p className="text-xs text-rose-500">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 pb-5">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100">Cancel</button>
+          <button
+            onClick={handleExport}
+            disabled={busy}
+            className="px-4 py-2 rounded-lg bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
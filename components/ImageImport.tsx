@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { CellKey } from '../types';
+import { latticeExtent, latticePosition, parseKey } from '../utils/coords';
+import { DitherMode, FitMode, cropRect, quantizeImage, samplePegs } from '../utils/imageQuantize';
+import { X, ImagePlus } from 'lucide-react';
+
+const PREVIEW_CELL = 10; // px per peg in the preview
+const SAMPLE_CELL = 4; // px per pitch in the picture the pegs are sampled from
+
+export const ImageImport: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { board, palette, loadPattern, exportPattern } = useStore();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [fit, setFit] = useState<FitMode>('fill');
+  const [dither, setDither] = useState<DitherMode>('none');
+  const [maxColors, setMaxColors] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => { setImage(img); setError(null); URL.revokeObjectURL(url); };
+    img.onerror = () => { setError('Could not read that image.'); URL.revokeObjectURL(url); };
+    img.src = url;
+  };
+
+  // Scale the image onto the board's footprint, sample it at each peg, then match colors
+  const result = useMemo<Map<CellKey, string> | null>(() => {
+    if (!image) return null;
+    // Hex rows sit closer than a pitch and odd rows shift half a pitch, so the
+    // footprint is not cols × rows
+    const extent = latticeExtent(board);
+    const width = Math.round((extent.width + 1) * SAMPLE_CELL);
+    const height = Math.round((extent.height + 1) * SAMPLE_CELL);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    const { sx, sy, sw, sh } = cropRect(image.naturalWidth, image.naturalHeight, width / height, fit);
+    if (fit === 'fit') {
+      // Letterbox: leftover pegs stay empty
+      const s = Math.min(width / sw, height / sh);
+      const dw = sw * s, dh = sh * s;
+      ctx.drawImage(image, sx, sy, sw, sh, (width - dw) / 2, (height - dh) / 2, dw, dh);
+    } else {
+      ctx.drawImage(image, sx, sy, sw, sh, 0, 0, width, height);
+    }
+
+    const pegs = samplePegs(ctx.getImageData(0, 0, width, height), board, SAMPLE_CELL);
+    return quantizeImage(pegs, board, palette, { dither, maxColors });
+  }, [image, board, palette, fit, dither, maxColors]);
+
+  // Preview
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const extent = latticeExtent(board);
+    canvas.width = (extent.width + 1) * PREVIEW_CELL;
+    canvas.height = (extent.height + 1) * PREVIEW_CELL;
+    ctx.fillStyle = '#e2e8f0';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (!result) return;
+
+    const colors = new Map(palette.map(p => [p.id, p.hex]));
+    result.forEach((colorId, key) => {
+      const { x, y } = parseKey(key);
+      const { u, v } = latticePosition(x, y, board);
+      ctx.fillStyle = colors.get(colorId) || '#000';
+      ctx.beginPath();
+      ctx.arc((u + 0.5) * PREVIEW_CELL, (v + 0.5) * PREVIEW_CELL, PREVIEW_CELL / 2 - 0.5, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }, [result, board, palette]);
+
+  const handleApply = () => {
+    if (!result) return;
+    // Replaces every layer with the converted picture
+    loadPattern({ ...exportPattern(), cells: Object.fromEntries(result), layers: undefined });
+    onClose();
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Import image"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-bold text-slate-800">Picture to Pattern</h2>
+          <button onClick={onClose} aria-label="Close image import" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-4">
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg border-2 border-dashed border-slate-300 text-slate-600 hover:bg-slate-50"
+          >
+            <ImagePlus size={18} /> {image ? 'Choose another picture' : 'Choose a PNG or JPEG'}
+          </button>
+          <input ref={fileRef} type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleFile} />
+          {error && <p className="text-xs text-rose-500">{error}</p>}
+
+          <canvas ref={previewRef} className="w-full h-auto rounded-lg bg-slate-100" style={{ imageRendering: 'pixelated' }} />
+
+          <div className="grid grid-cols-2 gap-3 text-xs text-slate-500">
+            <label className="flex flex-col gap-1">
+              Framing
+              <select value={fit} onChange={(e) => setFit(e.target.value as FitMode)} className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm">
+                <option value="fill">Crop to fill board</option>
+                <option value="fit">Fit whole picture</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Dithering
+              <select value={dither} onChange={(e) => setDither(e.target.value as DitherMode)} className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm">
+                <option value="none">None (flat colors)</option>
+                <option value="floyd-steinberg">Floyd–Steinberg</option>
+                <option value="ordered">Ordered (pattern)</option>
+              </select>
+            </label>
+            <label className="col-span-2 flex flex-col gap-1">
+              Max colors: {maxColors === 0 ? 'all' : maxColors}
+              <input
+                type="range"
+                min={0}
+                max={palette.length}
+                value={maxColors}
+                onChange={(e) => setMaxColors(Number(e.target.value))}
+              />
+            </label>
+          </div>
+
+          {result && <p className="text-xs text-slate-500">{result.size} pegs · replaces the current board</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 pb-5">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100">Cancel</button>
+          <button
+            onClick={handleApply}
+            disabled={!result}
+            className="px-4 py-2 rounded-lg bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40"
+          >
+            Use pattern
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
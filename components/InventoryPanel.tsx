@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useCompositeCells, useStore } from '../store';
+import { Pattern } from '../types';
+import { listPatterns } from '../utils/library';
+import { planNeeds, shoppingListCsv } from '../utils/inventory';
+import { generateShoppingListPDF } from '../utils/exportPdf';
+import { downloadBlob } from '../utils/download';
+import { X, FileDown, FileText } from 'lucide-react';
+import clsx from 'clsx';
+
+type Tab = 'stock' | 'plan';
+
+export const InventoryPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const {
+    board, palette, metadata, inventory, setOwned, classPlan, setPlanCopies, patternId, exportPattern
+  } = useStore();
+  const cells = useCompositeCells();
+  const [tab, setTab] = useState<Tab>('stock');
+  const [saved, setSaved] = useState<Pattern[]>([]);
+  const [sparePercent, setSparePercent] = useState(10);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listPatterns()
+      .then(entries => setSaved(entries.map(e => e.pattern)))
+      .catch(() => setError('The pattern library is not available; only the current design can be planned.'));
+  }, []);
+
+  // The design on the board replaces its (possibly older) library copy
+  const current = useMemo(() => exportPattern(), [cells, board, palette, metadata, exportPattern]);
+  const patterns = useMemo(() => [current, ...saved.filter(p => p.id !== current.id)], [current, saved]);
+
+  const currentNeeds = useMemo(
+    () => planNeeds([{ pattern: current, copies: 1 }], palette, inventory),
+    [current, palette, inventory]
+  );
+  const plan = useMemo(() => classPlan.flatMap(item => {
+    const pattern = patterns.find(p => p.id === item.patternId);
+    return pattern ? [{ pattern, copies: item.copies }] : [];
+  }), [classPlan, patterns]);
+  const planTotals = useMemo(
+    () => planNeeds(plan, palette, inventory, sparePercent),
+    [plan, palette, inventory, sparePercent]
+  );
+
+  const downloadCsv = () => downloadBlob(
+    new Blob([shoppingListCsv(planTotals)], { type: 'text/csv' }),
+    'bead_shopping_list.csv'
+  );
+
+  const downloadPdf = () => generateShoppingListPDF(
+    planTotals,
+    plan.map(({ pattern, copies }) => ({ title: pattern.metadata.title, copies })),
+    sparePercent
+  );
+
+  const needed = (colorId: string) => currentNeeds.find(n => n.color.id === colorId);
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Bead inventory"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <div className="flex bg-slate-100 rounded-lg p-1 gap-1 text-sm">
+            <button onClick={() => setTab('stock')} className={clsx("px-3 py-1 rounded", tab === 'stock' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+              My beads
+            </button>
+            <button onClick={() => setTab('plan')} className={clsx("px-3 py-1 rounded", tab === 'plan' ? "bg-white shadow text-brand-600" : "text-slate-500")}>
+              Class plan
+            </button>
+          </div>
+          <button onClick={onClose} aria-label="Close inventory" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        {tab === 'stock' && (
+          <div className="flex-1 overflow-y-auto px-5 py-3">
+            <p className="text-xs text-slate-400 mb-2">
+              Count what's in your trays. "{current.metadata.title}" uses the amounts on the right.
+            </p>
+            <ul className="flex flex-col gap-1">
+              {palette.map(color => {
+                const need = needed(color.id);
+                return (
+                  <li key={color.id} className="flex items-center gap-2 text-sm">
+                    <span className="w-5 h-5 rounded-full border border-slate-200 flex-shrink-0" style={{ backgroundColor: color.hex }} />
+                    <span className="flex-1 truncate text-slate-700">{color.name}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={inventory[color.id] ?? 0}
+                      onChange={(e) => setOwned(color.id, Number(e.target.value))}
+                      className="w-20 px-2 py-1 rounded bg-slate-100 text-slate-800 text-right"
+                      aria-label={`${color.name} beads owned`}
+                    />
+                    <span className={clsx("w-24 text-right text-xs", need?.short ? "text-rose-500 font-bold" : "text-slate-400")}>
+                      {need ? (need.short ? `${need.short} short` : `uses ${need.needed}`) : '—'}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {tab === 'plan' && (
+          <div className="flex-1 overflow-y-auto px-5 py-3 flex flex-col gap-3">
+            <div>
+              <h3 className="text-xs font-bold text-slate-500 mb-1">Copies per pattern</h3>
+              {error && <p className="text-xs text-rose-500 mb-1">{error}</p>}
+              <ul className="flex flex-col gap-1">
+                {patterns.map(pattern => (
+                  <li key={pattern.id} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 truncate text-slate-700">
+                      {pattern.metadata.title}
+                      {pattern.id === patternId && <span className="text-slate-400"> (on the board)</span>}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={classPlan.find(item => item.patternId === pattern.id)?.copies ?? 0}
+                      onChange={(e) => setPlanCopies(pattern.id, Number(e.target.value))}
+                      className="w-20 px-2 py-1 rounded bg-slate-100 text-slate-800 text-right"
+                      aria-label={`Copies of ${pattern.metadata.title}`}
+                    />
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              Spare beads
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={sparePercent}
+                onChange={(e) => setSparePercent(Math.max(0, Number(e.target.value) || 0))}
+                className="w-16 px-2 py-1 rounded bg-slate-100 text-slate-800 text-right"
+              />
+              %
+            </label>
+
+            {planTotals.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-400 text-right">
+                    <th className="text-left font-normal">Color</th>
+                    <th className="font-normal">Needed</th>
+                    <th className="font-normal">Owned</th>
+                    <th className="font-normal">To buy</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {planTotals.map(need => (
+                    <tr key={need.color.id} className="text-right">
+                      <td className="text-left py-0.5">
+                        <span className="inline-block w-3 h-3 rounded-full mr-2 align-middle border border-slate-200" style={{ backgroundColor: need.color.hex }} />
+                        {need.color.name}
+                      </td>
+                      <td>{need.needed}</td>
+                      <td>{need.owned}</td>
+                      <td className={need.short ? "text-rose-500 font-bold" : "text-slate-400"}>{need.short || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-slate-400 text-center py-4">Set how many copies each pattern needs.</p>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <button
+                onClick={downloadCsv}
+                disabled={planTotals.length === 0}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm hover:bg-slate-200 disabled:opacity-40"
+              >
+                <FileDown size={16} /> CSV
+              </button>
+              <button
+                onClick={downloadPdf}
+                disabled={planTotals.length === 0}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg bg-brand-500 text-white text-sm hover:bg-brand-600 disabled:opacity-40"
+              >
+                <FileText size={16} /> Shopping list PDF
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
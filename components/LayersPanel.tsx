@@ -0,0 +1,103 @@
+import React from 'react';
+import { useStore } from '../store';
+import { X, Plus, Eye, EyeOff, Lock, LockOpen, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import clsx from 'clsx';
+
+export const LayersPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const {
+    layers, activeLayerId, addLayer, removeLayer, setActiveLayer, updateLayer, moveLayer
+  } = useStore();
+
+  return (
+    <div className="absolute left-4 top-4 w-72 max-h-[70%] bg-white rounded-xl shadow-xl border border-slate-100 flex flex-col z-30">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-100">
+        <h2 className="font-bold text-slate-700 text-sm">Layers</h2>
+        <div className="flex items-center gap-1">
+          <button onClick={addLayer} aria-label="Add layer" className="p-1 text-slate-400 hover:text-slate-600">
+            <Plus size={16} />
+          </button>
+          <button onClick={onClose} aria-label="Close layers" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Top layer first, like most drawing apps */}
+      <ol className="flex-1 overflow-y-auto py-1 text-sm">
+        {[...layers].reverse().map(layer => {
+          const index = layers.indexOf(layer);
+          const isActive = layer.id === activeLayerId;
+          return (
+            <li
+              key={layer.id}
+              onClick={() => setActiveLayer(layer.id)}
+              className={clsx("px-3 py-2 flex flex-col gap-1 cursor-pointer", isActive ? "bg-brand-50" : "hover:bg-slate-50")}
+            >
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={(e) => { e.stopPropagation(); updateLayer(layer.id, { visible: !layer.visible }); }}
+                  aria-label={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+                  className="p-1 text-slate-500"
+                >
+                  {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); updateLayer(layer.id, { locked: !layer.locked }); }}
+                  aria-label={layer.locked ? `Unlock ${layer.name}` : `Lock ${layer.name}`}
+                  className={clsx("p-1", layer.locked ? "text-rose-500" : "text-slate-400")}
+                >
+                  {layer.locked ? <Lock size={14} /> : <LockOpen size={14} />}
+                </button>
+                <input
+                  type="text"
+                  value={layer.name}
+                  onChange={(e) => updateLayer(layer.id, { name: e.target.value })}
+                  onFocus={() => setActiveLayer(layer.id)}
+                  className={clsx("flex-1 min-w-0 px-1 py-0.5 rounded bg-transparent focus:bg-white", isActive ? "font-bold text-brand-600" : "text-slate-700")}
+                  aria-label="Layer name"
+                />
+                <button
+                  onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, index + 1); }}
+                  disabled={index === layers.length - 1}
+                  aria-label={`Move ${layer.name} up`}
+                  className="p-1 text-slate-400 disabled:opacity-30"
+                >
+                  <ArrowUp size={14} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); moveLayer(layer.id, index - 1); }}
+                  disabled={index === 0}
+                  aria-label={`Move ${layer.name} down`}
+                  className="p-1 text-slate-400 disabled:opacity-30"
+                >
+                  <ArrowDown size={14} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); removeLayer(layer.id); }}
+                  disabled={layers.length <= 1}
+                  aria-label={`Delete ${layer.name}`}
+                  className="p-1 text-slate-400 hover:text-rose-500 disabled:opacity-30"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <label className="flex items-center gap-2 pl-1 text-xs text-slate-400">
+                Opacity
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={layer.opacity}
+                  onChange={(e) => updateLayer(layer.id, { opacity: Number(e.target.value) })}
+                  onClick={(e) => e.stopPropagation()}
+                  className="flex-1"
+                />
+              </label>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+import { BoardScene, paintBeads, paintBoardBase } from '../utils/boardRender';
+import { Viewport, screenToWorld } from '../utils/viewport';
+
+const MAX_WIDTH = 160;
+const MAX_HEIGHT = 120;
+const REPAINT_DELAY = 200; // ms
+
+interface MinimapProps {
+  scene: BoardScene;
+  view: Viewport;
+  viewWidth: number;
+  viewHeight: number;
+  onCenter: (wx: number, wy: number) => void; // Board point to pan to
+}
+
+/**
+ * Whole board in miniature with the visible part outlined. Click or drag to move around.
+ */
+export const Minimap: React.FC<MinimapProps> = ({ scene, view, viewWidth, viewHeight, onCenter }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const ratio = Math.min(MAX_WIDTH / scene.width, MAX_HEIGHT / scene.height);
+  const width = scene.width * ratio;
+  const height = scene.height * ratio;
+
+  // Repainted once painting pauses, not for every bead
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+      ctx.scale(dpr * ratio, dpr * ratio);
+      paintBoardBase(ctx, scene, 1 / ratio, false);
+      paintBeads(ctx, scene);
+    }, REPAINT_DELAY);
+    return () => clearTimeout(timer);
+  }, [scene, width, height, ratio]);
+
+  // Visible area, clipped to the board
+  const [left, top] = screenToWorld(view, 0, 0);
+  const [right, bottom] = screenToWorld(view, viewWidth, viewHeight);
+  const box = {
+    left: Math.max(0, left) * ratio,
+    top: Math.max(0, top) * ratio,
+    width: (Math.min(scene.width, right) - Math.max(0, left)) * ratio,
+    height: (Math.min(scene.height, bottom) - Math.max(0, top)) * ratio,
+  };
+
+  const handlePointer = (e: React.PointerEvent) => {
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    onCenter((e.clientX - rect.left) / ratio, (e.clientY - rect.top) / ratio);
+  };
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 z-20 bg-white/90 p-1 rounded-lg shadow cursor-pointer touch-none"
+      aria-label="Board overview"
+    >
+      <div className="relative" style={{ width, height }} onPointerDown={handlePointer} onPointerMove={handlePointer}>
+        <canvas ref={canvasRef} className="block" style={{ width, height }} />
+        {box.width > 0 && box.height > 0 && (
+          <div
+            className="absolute border-2 border-brand-500 bg-brand-500/10 pointer-events-none"
+            style={box}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { useCompositeCells, useStore } from '../store';
+import { MODEL_FORMATS, ModelExportOptions, ModelFormat, exportModel } from '../utils/modelExport';
+import { downloadBlob } from '../utils/download';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+
+export const ModelExport: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { board, palette, metadata } = useStore();
+  const cells = useCompositeCells();
+  const [format, setFormat] = useState<ModelFormat>('stl');
+  const [options, setOptions] = useState<ModelExportOptions>({ beads: true, plate: true, pegs: false, fused: false });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (key: keyof ModelExportOptions) => setOptions({ ...options, [key]: !options[key] });
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const blob = await exportModel(board, cells, palette, options, format);
+      downloadBlob(blob, `${metadata.title || 'pattern'}.${format}`);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the model.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-sm max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Export 3D model"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-bold text-slate-800">Export 3D Model</h2>
+          <button onClick={onClose} aria-label="Close model export" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-4 text-sm">
+          <label className="flex flex-col gap-1 text-xs text-slate-500">
+            Format
+            <select value={format} onChange={(e) => setFormat(e.target.value as ModelFormat)} className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm">
+              {MODEL_FORMATS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+            </select>
+          </label>
+
+          <div className="flex bg-slate-100 rounded-lg p-1 gap-1">
+            <button
+              onClick={() => setOptions({ ...options, fused: false })}
+              className={clsx("flex-1 py-1.5 rounded", !options.fused ? "bg-white shadow text-brand-600" : "text-slate-500")}
+            >
+              Loose beads
+            </button>
+            <button
+              onClick={() => setOptions({ ...options, fused: true })}
+              className={clsx("flex-1 py-1.5 rounded", options.fused ? "bg-white shadow text-brand-600" : "text-slate-500")}
+            >
+              Ironed
+            </button>
+          </div>
+
+          <div className="flex flex-col gap-2 text-slate-700">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.beads} onChange={() => toggle('beads')} /> Beads ({cells.size})
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.plate} onChange={() => toggle('plate')} /> Board plate
+            </label>
+            <label className={clsx("flex items-center gap-2 pl-5", !options.plate && "opacity-40")}>
+              <input type="checkbox" checked={options.pegs} disabled={!options.plate} onChange={() => toggle('pegs')} /> Pegs (printable pegboard)
+            </label>
+          </div>
+          <p className="text-xs text-slate-400">
+            {format === 'glb' ? 'Sizes are in meters, with colors.' : 'Sizes are in millimeters, matching your board settings.'}
+            {format === 'stl' && ' STL has no colors; print one color at a time or paint afterwards.'}
+          </p>
+          {error && <p className="text-xs text-rose-500">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 pb-5">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100">Cancel</button>
+          <button
+            onClick={handleExport}
+            disabled={busy}
+            className="px-4 py-2 rounded-lg bg-brand-500 text-white hover:bg-brand-600 disabled:opacity-40"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { parsePaletteFile } from '../utils/paletteIO';
+import { resolveLayers, usedColorIds } from '../utils/layers';
+import { PaletteColor } from '../types';
+import { X, ArrowUp, ArrowDown, Trash2, Plus, Upload, Save } from 'lucide-react';
+import clsx from 'clsx';
+
+export const PaletteManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const {
+    palette, savedPalettes, cells, layers, activeLayerId, selectedColorId, setColor,
+    addColor, updateColor, removeColor, moveColor, setPalette,
+    savePalette, loadSavedPalette, deleteSavedPalette
+  } = useStore();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [saveName, setSaveName] = useState('');
+  const [paletteError, setPaletteError] = useState<string | null>(null);
+
+  // Colors with pegs on any layer can't be deleted
+  const usedColors = useMemo(
+    () => usedColorIds(resolveLayers(layers, activeLayerId, cells)),
+    [cells, layers, activeLayerId]
+  );
+
+  // A whole new palette must keep every color that has beads, or the store refuses it
+  const missingColors = (colors: PaletteColor[]) => {
+    const missing = palette.filter(p => usedColors.has(p.id) && !colors.some(c => c.id === p.id));
+    if (missing.length === 0) return null;
+    return `${missing.map(p => p.name).join(', ')} ${missing.length === 1 ? 'is' : 'are'} still used on the board but not in that palette. Erase those beads first.`;
+  };
+
+  const handleLoadSaved = (id: string, name: string, colors: PaletteColor[]) => {
+    const missing = missingColors(colors);
+    setPaletteError(missing);
+    if (missing) return;
+    loadSavedPalette(id);
+    setSaveName(name);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parsePaletteFile(await file.text(), file.name);
+      const missing = missingColors(parsed.colors);
+      if (missing) {
+        setPaletteError(missing);
+        return;
+      }
+      // Imported libraries are kept alongside the user's own palettes
+      setPalette(parsed.colors);
+      savePalette(parsed.name);
+      setSaveName(parsed.name);
+      setPaletteError(null);
+    } catch (err) {
+      setPaletteError(err instanceof Error ? err.message : 'Could not read palette file.');
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Palette"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-bold text-slate-800">Palette</h2>
+          <button onClick={onClose} aria-label="Close palette" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Active Colors */}
+        <ul className="flex-1 overflow-y-auto px-5 py-3 flex flex-col gap-2">
+          {palette.map((color, i) => (
+            <li key={color.id} className={clsx("flex items-center gap-2 rounded-lg p-1", selectedColorId === color.id && "bg-slate-50")}>
+              <input
+                type="color"
+                value={color.hex}
+                onChange={(e) => updateColor(color.id, { hex: e.target.value })}
+                className="w-9 h-9 rounded-full border-0 bg-transparent cursor-pointer"
+                aria-label={`${color.name} color`}
+              />
+              <input
+                type="text"
+                value={color.name}
+                onChange={(e) => updateColor(color.id, { name: e.target.value })}
+                onFocus={() => setColor(color.id)}
+                className="flex-1 min-w-0 px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+                aria-label="Color name"
+              />
+              <button onClick={() => moveColor(color.id, i - 1)} disabled={i === 0} aria-label={`Move ${color.name} up`} className="p-1.5 text-slate-500 disabled:opacity-30">
+                <ArrowUp size={16} />
+              </button>
+              <button onClick={() => moveColor(color.id, i + 1)} disabled={i === palette.length - 1} aria-label={`Move ${color.name} down`} className="p-1.5 text-slate-500 disabled:opacity-30">
+                <ArrowDown size={16} />
+              </button>
+              <button
+                onClick={() => removeColor(color.id)}
+                disabled={palette.length <= 1 || usedColors.has(color.id)}
+                title={usedColors.has(color.id) ? 'Used on the board' : undefined}
+                aria-label={`Delete ${color.name}`}
+                className="p-1.5 text-slate-400 hover:text-rose-500 disabled:opacity-30"
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-2 px-5 pb-3">
+          <button
+            onClick={() => addColor({ name: 'New Color', hex: '#94a3b8' })}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm hover:bg-slate-200"
+          >
+            <Plus size={16} /> Add color
+          </button>
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm hover:bg-slate-200"
+          >
+            <Upload size={16} /> Import .json / .gpl
+          </button>
+          <input ref={fileRef} type="file" accept=".json,.gpl,application/json,text/plain" className="hidden" onChange={handleImport} />
+        </div>
+        {paletteError && <p className="px-5 pb-3 text-xs text-rose-500" role="alert">{paletteError}</p>}
+
+        {/* Saved Palettes */}
+        <div className="border-t border-slate-100 px-5 py-3 flex flex-col gap-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="Palette name"
+              className="flex-1 min-w-0 px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+              aria-label="Palette name"
+            />
+            <button
+              onClick={() => savePalette(saveName.trim())}
+              disabled={!saveName.trim()}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-brand-500 text-white text-sm hover:bg-brand-600 disabled:opacity-40"
+            >
+              <Save size={16} /> Save
+            </button>
+          </div>
+          {savedPalettes.map(saved => (
+            <div key={saved.id} className="flex items-center gap-2">
+              <button
+                onClick={() => handleLoadSaved(saved.id, saved.name, saved.colors)}
+                className="flex-1 flex items-center gap-2 text-left px-2 py-1.5 rounded hover:bg-slate-50"
+              >
+                <span className="text-sm text-slate-700 truncate">{saved.name}</span>
+                <span className="flex -space-x-1">
+                  {saved.colors.slice(0, 8).map(c => (
+                    <span key={c.id} className="w-4 h-4 rounded-full border border-white" style={{ backgroundColor: c.hex }} />
+                  ))}
+                </span>
+              </button>
+              <button onClick={() => deleteSavedPalette(saved.id)} aria-label={`Delete ${saved.name}`} className="p-1.5 text-slate-400 hover:text-rose-500">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useStore } from '../store';
+import { Pattern } from '../types';
+import {
+  DifficultyFilter, LibraryEntry, deletePattern, filterLibrary, listPatterns, putPattern
+} from '../utils/library';
+import { patternShortages } from '../utils/inventory';
+import { renderThumbnail } from '../utils/thumbnail';
+import { hasBeads, resolveLayers } from '../utils/layers';
+import { PATTERN_TEMPLATES, PatternTemplate } from '../utils/templates';
+import { X, Save, Search, CopyPlus, Pencil, Trash2, FilePlus } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import clsx from 'clsx';
+
+const DIFFICULTIES: Array<Pattern['metadata']['difficulty']> = ['Easy', 'Medium', 'Hard'];
+
+export const PatternLibrary: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const {
+    metadata, setMetadata, patternId, cells, layers, activeLayerId, board, palette, inventory,
+    exportPattern, loadPattern
+  } = useStore();
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [difficulty, setDifficulty] = useState<DifficultyFilter>('all');
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  // Enter and the blur that follows it both end a rename; only the first one saves
+  const isRenaming = useRef(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = useMemo(() => filterLibrary(entries, query, difficulty), [entries, query, difficulty]);
+
+  // Library calls share one error display
+  const attempt = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setEntries(await listPatterns());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The pattern library is not available.');
+    }
+  };
+
+  useEffect(() => { attempt(async () => {}); }, []);
+
+  const saveCurrent = async () => {
+    const pattern = exportPattern();
+    await putPattern({ pattern, thumbnail: renderThumbnail(pattern), updated: Date.now() });
+  };
+
+  // Designs already in the library are kept up to date; others are only saved when the user agrees
+  const switchTo = (pattern: Pattern) => attempt(async () => {
+    if (pattern.id === patternId) return onClose();
+    const keep = entries.some(entry => entry.pattern.id === patternId)
+      || (hasBeads(resolveLayers(layers, activeLayerId, cells))
+        && window.confirm(`Save "${metadata.title}" to the library first? Cancel opens "${pattern.metadata.title}" without saving it.`));
+    if (keep) await saveCurrent();
+    loadPattern(pattern);
+    onClose();
+  });
+
+  const handleTemplate = (template: PatternTemplate) => switchTo({
+    id: uuidv4(),
+    metadata: { title: template.name, author: metadata.author, difficulty: 'Easy', created: Date.now() },
+    cells: template.build(board, palette),
+    board,
+    palette,
+  });
+
+  const handleDuplicate = (entry: LibraryEntry) => attempt(() => putPattern({
+    ...entry,
+    pattern: {
+      ...entry.pattern,
+      id: uuidv4(),
+      metadata: { ...entry.pattern.metadata, title: `${entry.pattern.metadata.title} (copy)`, created: Date.now() },
+    },
+    updated: Date.now(),
+  }));
+
+  const startRename = (id: string, title: string) => {
+    isRenaming.current = true;
+    setRenaming({ id, title });
+  };
+
+  const handleRename = (entry: LibraryEntry, title: string) => {
+    if (!isRenaming.current) return;
+    isRenaming.current = false;
+    setRenaming(null);
+    if (!title.trim() || title === entry.pattern.metadata.title) return;
+    if (entry.pattern.id === patternId) setMetadata({ title: title.trim() });
+    attempt(() => putPattern({
+      ...entry,
+      pattern: { ...entry.pattern, metadata: { ...entry.pattern.metadata, title: title.trim() } },
+      updated: Date.now(),
+    }));
+  };
+
+  const handleDelete = (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.pattern.metadata.title}" from the library?`)) return;
+    attempt(() => deletePattern(entry.pattern.id));
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Pattern library"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-bold text-slate-800">My Patterns</h2>
+          <button onClick={onClose} aria-label="Close library" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Current Design */}
+        <div className="flex flex-wrap items-end gap-2 px-5 py-3 border-b border-slate-100">
+          <label className="flex flex-col gap-1 text-xs text-slate-500 flex-1 min-w-[8rem]">
+            Title
+            <input
+              type="text"
+              value={metadata.title}
+              onChange={(e) => setMetadata({ title: e.target.value })}
+              className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-500 flex-1 min-w-[8rem]">
+            Author
+            <input
+              type="text"
+              value={metadata.author}
+              onChange={(e) => setMetadata({ author: e.target.value })}
+              className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-500">
+            Difficulty
+            <select
+              value={metadata.difficulty}
+              onChange={(e) => setMetadata({ difficulty: e.target.value as Pattern['metadata']['difficulty'] })}
+              className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+            >
+              {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => attempt(saveCurrent)}
+            className="flex items-center gap-1 px-3 py-2 rounded-lg bg-brand-500 text-white text-sm hover:bg-brand-600"
+          >
+            <Save size={16} /> Save to library
+          </button>
+        </div>
+
+        {/* New From Template */}
+        <div className="flex gap-2 overflow-x-auto px-5 py-3 border-b border-slate-100">
+          {PATTERN_TEMPLATES.map(template => (
+            <button
+              key={template.id}
+              onClick={() => handleTemplate(template)}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg bg-slate-100 text-slate-700 text-sm whitespace-nowrap hover:bg-slate-200"
+            >
+              <FilePlus size={16} /> {template.name}
+            </button>
+          ))}
+        </div>
+
+        {/* Search */}
+        <div className="flex gap-2 px-5 pt-3">
+          <label className="flex-1 flex items-center gap-2 px-2 rounded bg-slate-100 text-slate-400">
+            <Search size={16} />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search title or author"
+              className="flex-1 py-1.5 bg-transparent text-slate-800 text-sm outline-none"
+              aria-label="Search patterns"
+            />
+          </label>
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as DifficultyFilter)}
+            className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+            aria-label="Filter by difficulty"
+          >
+            <option value="all">All levels</option>
+            {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+          </select>
+        </div>
+        {error && <p className="px-5 pt-2 text-xs text-rose-500">{error}</p>}
+
+        {/* Gallery */}
+        <ul className="flex-1 overflow-y-auto grid grid-cols-2 sm:grid-cols-4 gap-3 p-5">
+          {visible.map(entry => {
+            const { id, metadata: meta } = entry.pattern;
+            const shortages = patternShortages(entry.pattern, palette, inventory);
+            return (
+              <li key={id} className={clsx("rounded-lg border p-2 flex flex-col gap-1", id === patternId ? "border-brand-500" : "border-slate-200")}>
+                <button onClick={() => switchTo(entry.pattern)} className="rounded overflow-hidden" aria-label={`Open ${meta.title}`}>
+                  <img src={entry.thumbnail} alt="" className="w-full aspect-square" />
+                </button>
+                {renaming?.id === id ? (
+                  <input
+                    autoFocus
+                    type="text"
+                    value={renaming.title}
+                    onChange={(e) => setRenaming({ id, title: e.target.value })}
+                    onBlur={() => handleRename(entry, renaming.title)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(entry, renaming.title);
+                      if (e.key === 'Escape') {
+                        isRenaming.current = false;
+                        setRenaming(null);
+                      }
+                    }}
+                    className="px-1 py-0.5 rounded bg-slate-100 text-slate-800 text-sm"
+                    aria-label="Pattern title"
+                  />
+                ) : (
+                  <div className="text-sm font-medium text-slate-700 truncate">{meta.title}</div>
+                )}
+                <div className="text-xs text-slate-400 truncate">{meta.author} · {meta.difficulty}</div>
+                {shortages.length > 0 && (
+                  <div
+                    className="text-xs text-rose-500 truncate"
+                    title={shortages.map(n => `${n.short} × ${n.color.name}`).join(', ')}
+                  >
+                    Short of {shortages.length} {shortages.length === 1 ? 'color' : 'colors'}
+                  </div>
+                )}
+                <div className="flex justify-end">
+                  <button onClick={() => startRename(id, meta.title)} aria-label={`Rename ${meta.title}`} className="p-1 text-slate-400 hover:text-slate-600">
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => handleDuplicate(entry)} aria-label={`Duplicate ${meta.title}`} className="p-1 text-slate-400 hover:text-slate-600">
+                    <CopyPlus size={14} />
+                  </button>
+                  <button onClick={() => handleDelete(entry)} aria-label={`Delete ${meta.title}`} className="p-1 text-slate-400 hover:text-rose-500">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+          {visible.length === 0 && (
+            <li className="col-span-full text-center text-sm text-slate-400 py-8">
+              {entries.length === 0 ? 'No saved patterns yet.' : 'No patterns match.'}
+            </li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
-import React, { useMemo, useRef, useEffect } from 'react';
+import React, { useMemo, useRef, useEffect, useState } from 'react';
 import * as THREE from 'three';
-import { Canvas, useFrame } from '@react-three/fiber';
+import { Canvas, useThree } from '@react-three/fiber';
 import { 
   OrbitControls, 
   Environment, 
@@ -10,78 +10,101 @@ import {
   MeshTransmissionMaterial,
   Center
 } from '@react-three/drei';
-import { useStore } from '../store';
-import { gridToWorld, parseKey } from '../utils/coords';
-
-// --- GEOMETRY FACTORY ---
-
-// Create a realistic hollow tube geometry for the beads with bevels
-const createBeadGeometry = () => {
-    const shape = new THREE.Shape();
-    // Outer circle
-    shape.absarc(0, 0, 0.22, 0, Math.PI * 2, false);
-    // Inner hole
-    const hole = new THREE.Path();
-    hole.absarc(0, 0, 0.14, 0, Math.PI * 2, true);
-    shape.holes.push(hole);
-    
-    const geom = new THREE.ExtrudeGeometry(shape, {
-        depth: 0.44, 
-        bevelEnabled: true, 
-        bevelThickness: 0.02, 
-        bevelSize: 0.02, 
-        bevelSegments: 3,
-        curveSegments: 16 // Optimized for performance
-    });
-    
-    // Center geometry at origin for easier positioning
-    geom.center();
-    // Rotate to align with Y-up world (Extrude creates along Z)
-    geom.rotateX(Math.PI / 2);
-    return geom;
-};
+import { BoardSpec, CellKey, ToolType } from '../types';
+import { useBuildGuide, useCompositeCells, useStore } from '../store';
+import { gridToWorld, parseKey, worldToGrid } from '../utils/coords';
+import { isPegOnBoard } from '../utils/boardShape';
+import { createBeadGeometry, createBoardPlateGeometry, createPegGeometry } from '../utils/boardGeometry';
+import { mosaicTiles, tileCenter, tileSpec } from '../utils/mosaic';
+import { qualitySettings } from '../utils/renderQuality';
+import { GridPoint, isShapeTool, shapePoints } from '../utils/shapes';
+import { symmetryPoints } from '../utils/symmetry';
 
 // Singleton Geometry instances
 const BeadGeom = createBeadGeometry();
-const PegGeom = new THREE.CylinderGeometry(0.09, 0.09, 0.25, 16);
-// Shift peg origin to bottom for easier placement on board
-PegGeom.translate(0, 0.125, 0); 
+const WHITE = new THREE.Color('#ffffff');
+
+// Pointers are traced onto the board's top surface, the y = 0 plane gridToWorld places pegs on
+const BOARD_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
 
 // --- COMPONENTS ---
 
 const Pegs: React.FC = () => {
     const { board } = useStore();
+    const invalidate = useThree(state => state.invalidate);
     const meshRef = useRef<THREE.InstancedMesh>(null);
-    const count = board.cols * board.rows;
 
-    useEffect(() => {
-        if (!meshRef.current) return;
-        const tempObj = new THREE.Object3D();
-        let i = 0;
+    // Only holes inside the board's shape get a peg
+    const holes = useMemo(() => {
+        const list: Array<[number, number]> = [];
         for (let x = 0; x < board.cols; x++) {
             for (let y = 0; y < board.rows; y++) {
-                const [px, py, pz] = gridToWorld(x, y, board);
-                // Position pegs slightly embedded in board
-                tempObj.position.set(px, py + 0.05, pz); 
-                tempObj.updateMatrix();
-                meshRef.current.setMatrixAt(i, tempObj.matrix);
-                i++;
+                if (isPegOnBoard(x, y, board)) list.push([x, y]);
             }
         }
-        meshRef.current.instanceMatrix.needsUpdate = true;
+        return list;
     }, [board]);
+    const count = holes.length;
+    const pegGeom = useMemo(() => createPegGeometry(board), [board]);
+    useEffect(() => () => pegGeom.dispose(), [pegGeom]);
+
+    useEffect(() => {
+        if (!meshRef.current) return;
+        const tempObj = new THREE.Object3D();
+        holes.forEach(([x, y], i) => {
+            const [px, py, pz] = gridToWorld(x, y, board);
+            // Position pegs slightly embedded in board
+            tempObj.position.set(px, py + 0.05, pz); 
+            tempObj.updateMatrix();
+            meshRef.current!.setMatrixAt(i, tempObj.matrix);
+        });
+        meshRef.current.instanceMatrix.needsUpdate = true;
+        invalidate();
+    }, [board, holes, invalidate]);
 
     return (
-        <instancedMesh ref={meshRef} args={[PegGeom, undefined, count]} castShadow receiveShadow>
+        <instancedMesh ref={meshRef} args={[pegGeom, undefined, count]} castShadow receiveShadow>
             <meshStandardMaterial color="#94a3b8" roughness={0.4} metalness={0.2} />
         </instancedMesh>
     );
 }
 
-const Cylinders: React.FC = () => {
-    const { board, cells, palette } = useStore();
+// Bead instances start at this many and double when a pattern outgrows them
+const MIN_BEAD_CAPACITY = 256;
+
+const growCapacity = (capacity: number, needed: number) => {
+    let next = capacity;
+    while (next < needed) next *= 2;
+    return next;
+};
+
+// Which instance holds which bead, so a store change only touches what changed
+interface BeadSlots {
+    mesh: THREE.InstancedMesh | null;
+    board: BoardSpec | null;
+    colorMap: Record<string, THREE.Color> | null;
+    keys: CellKey[]; // Instance i shows bead keys[i]
+    index: Map<CellKey, number>;
+    colors: Map<CellKey, string>;
+}
+
+const Cylinders: React.FC<{ physical: boolean }> = ({ physical }) => {
+    const { board, palette } = useStore();
+    const cells = useCompositeCells();
+    const invalidate = useThree(state => state.invalidate);
     const meshRef = useRef<THREE.InstancedMesh>(null);
-    const count = board.cols * board.rows;
+    const slots = useRef<BeadSlots>({ mesh: null, board: null, colorMap: null, keys: [], index: new Map(), colors: new Map() });
+
+    // A bigger pattern gets a bigger mesh, which starts over with empty slots
+    const [capacity, setCapacity] = useState(() => growCapacity(MIN_BEAD_CAPACITY, cells.size));
+    if (cells.size > capacity) setCapacity(growCapacity(capacity, cells.size));
+
+    // In build-guide mode only placed and current-step beads are shown
+    const guide = useBuildGuide();
+    const hidden = useMemo(
+        () => guide ? new Set(guide.steps.slice(guide.current + 1).flatMap(step => step.cells)) : null,
+        [guide]
+    );
     
     // Create Three.js colors once
     const colorMap = useMemo(() => {
@@ -90,111 +113,352 @@ const Cylinders: React.FC = () => {
         return map;
     }, [palette]);
 
-    useFrame(() => {
-        if (!meshRef.current) return;
-        
-        let i = 0;
+    useEffect(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const s = slots.current;
+        // Positions depend on the board, and a new palette may recolor anything
+        if (s.mesh !== mesh || s.board !== board || s.colorMap !== colorMap) {
+            Object.assign(s, { mesh, board, colorMap, keys: [], index: new Map(), colors: new Map() });
+        }
+
         const tempObj = new THREE.Object3D();
-        
+        const matrix = new THREE.Matrix4();
+        let first = Infinity;
+        let last = -1;
+        const touch = (i: number) => {
+            first = Math.min(first, i);
+            last = Math.max(last, i);
+        };
+
+        // Removed or hidden beads: the last instance moves into the gap
+        for (const key of [...s.keys]) {
+            if (cells.has(key) && !hidden?.has(key)) continue;
+            const i = s.index.get(key)!;
+            const moved = s.keys.pop()!;
+            if (moved !== key) {
+                mesh.getMatrixAt(s.keys.length, matrix);
+                mesh.setMatrixAt(i, matrix);
+                const movedColor = s.colors.get(moved);
+                mesh.setColorAt(i, (movedColor && colorMap[movedColor]) || WHITE);
+                s.keys[i] = moved;
+                s.index.set(moved, i);
+                touch(i);
+            }
+            s.index.delete(key);
+            s.colors.delete(key);
+        }
+
         cells.forEach((colorId, key) => {
-             const { x, y } = parseKey(key);
-             const [px, py, pz] = gridToWorld(x, y, board);
-             
-             // Position bead on top of board/peg
-             // Board surface ~0.05 + Peg height ~0.25
-             // Bead center needs to be calculated. 
-             // Bead height is 0.44. Center is 0.22.
-             // We want it sitting on the board surface (y=0.05 approx)
-             tempObj.position.set(px, py + 0.05 + 0.22, pz); 
-             
-             // Subtle random rotation for realism
-             tempObj.rotation.y = (x * 0.5 + y * 0.5); 
-
-             tempObj.updateMatrix();
-             
-             meshRef.current!.setMatrixAt(i, tempObj.matrix);
-             meshRef.current!.setColorAt(i, colorMap[colorId]);
-             i++;
+            if (hidden?.has(key)) return;
+            let i = s.index.get(key);
+            if (i === undefined) {
+                i = s.keys.length;
+                const { x, y } = parseKey(key);
+                const [px, py, pz] = gridToWorld(x, y, board);
+                // Bead height is 0.44, so its center sits 0.22 above the board surface (~0.05)
+                tempObj.position.set(px, py + 0.05 + 0.22, pz);
+                // Subtle random rotation for realism
+                tempObj.rotation.y = (x * 0.5 + y * 0.5);
+                tempObj.updateMatrix();
+                mesh.setMatrixAt(i, tempObj.matrix);
+                s.keys.push(key);
+                s.index.set(key, i);
+            } else if (s.colors.get(key) === colorId) {
+                return;
+            }
+            mesh.setColorAt(i, colorMap[colorId] ?? WHITE);
+            s.colors.set(key, colorId);
+            touch(i);
         });
 
-        // Move unused instances out of view
-        for (let j = i; j < count; j++) {
-             tempObj.position.set(0, -100, 0);
-             tempObj.updateMatrix();
-             meshRef.current!.setMatrixAt(j, tempObj.matrix);
+        mesh.count = s.keys.length;
+        if (last >= 0) {
+            mesh.instanceMatrix.addUpdateRange(first * 16, (last - first + 1) * 16);
+            mesh.instanceMatrix.needsUpdate = true;
+            if (mesh.instanceColor) {
+                mesh.instanceColor.addUpdateRange(first * 3, (last - first + 1) * 3);
+                mesh.instanceColor.needsUpdate = true;
+            }
+            mesh.computeBoundingSphere();
         }
+        invalidate();
+    }, [cells, hidden, colorMap, board, capacity, invalidate]);
+
+    return (
+        <instancedMesh key={capacity} ref={meshRef} args={[BeadGeom, undefined, capacity]} castShadow receiveShadow>
+            {physical ? (
+                <meshPhysicalMaterial 
+                    roughness={0.2} 
+                    metalness={0.05} 
+                    clearcoat={0.6} 
+                    clearcoatRoughness={0.15}
+                />
+            ) : (
+                <meshStandardMaterial roughness={0.3} metalness={0.05} />
+            )}
+        </instancedMesh>
+    );
+};
+
+// Rings floating above the current build step's pegs
+const GuideMarkers: React.FC = () => {
+    const { board } = useStore();
+    const guide = useBuildGuide();
+    const invalidate = useThree(state => state.invalidate);
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const keys = guide && guide.steps.length > 0 ? guide.steps[guide.current].cells : [];
+    const count = Math.max(1, keys.length);
 
+    useEffect(() => {
+        if (!meshRef.current) return;
+        const tempObj = new THREE.Object3D();
+        keys.forEach((key, i) => {
+            const { x, y } = parseKey(key);
+            const [px, py, pz] = gridToWorld(x, y, board);
+            tempObj.position.set(px, py + 0.6, pz);
+            tempObj.rotation.x = Math.PI / 2;
+            tempObj.updateMatrix();
+            meshRef.current!.setMatrixAt(i, tempObj.matrix);
+        });
+        meshRef.current.count = keys.length;
         meshRef.current.instanceMatrix.needsUpdate = true;
-        if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
-        meshRef.current.count = i;
-    });
+        invalidate();
+    }, [keys, board, invalidate]);
+
+    if (keys.length === 0) return null;
+
+    return (
+        <instancedMesh key={count} ref={meshRef} args={[undefined, undefined, count]}>
+            <torusGeometry args={[(board.pegPitchMm / 10) * 0.45, 0.03, 8, 24]} />
+            <meshBasicMaterial color="#f59e0b" />
+        </instancedMesh>
+    );
+};
+
+// Paints with the current tool where the pointer meets the board, and shows a see-through bead
+// where it would land. Drags that start off the board still turn the camera.
+const BoardPainter: React.FC = () => {
+    const { board, palette, activeTool, selectedColorId, symmetry, shapeFilled, selectedStampId } = useStore();
+    const cells = useCompositeCells();
+    const { camera, gl, controls, invalidate } = useThree();
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const [hover, setHover] = useState<GridPoint | null>(null);
+    const [shapeStart, setShapeStart] = useState<GridPoint | null>(null);
+    // The tool is kept from the press: the eyedropper switches to the pencil right away
+    const drag = useRef<{ pointerId: number; tool: ToolType; start: GridPoint; last: GridPoint } | null>(null);
+
+    useEffect(() => {
+        const raycaster = new THREE.Raycaster();
+        const pointer = new THREE.Vector2();
+        const hit = new THREE.Vector3();
+        const orbit = controls as unknown as { enabled: boolean } | null;
+
+        // The peg under the pointer, or null off the board
+        const pegAt = (e: PointerEvent): GridPoint | null => {
+            const rect = gl.domElement.getBoundingClientRect();
+            pointer.set(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+            raycaster.setFromCamera(pointer, camera);
+            if (!raycaster.ray.intersectPlane(BOARD_PLANE, hit)) return null;
+            const peg = worldToGrid(hit.x, hit.z, board);
+            return isPegOnBoard(peg.x, peg.y, board) ? peg : null;
+        };
+        const samePeg = (a: GridPoint | null, b: GridPoint | null) => a === b || (!!a && !!b && a.x === b.x && a.y === b.y);
+
+        const finish = () => {
+            drag.current = null;
+            setShapeStart(null);
+            if (orbit) orbit.enabled = true;
+        };
+
+        // Capture phase, so the camera controls see the press only after painting claimed it
+        const handleDown = (e: PointerEvent) => {
+            const store = useStore.getState();
+            if (drag.current) {
+                // A second finger means orbit or zoom: take back what the first one painted
+                store.cancelStroke();
+                finish();
+                return;
+            }
+            if (e.button !== 0 || store.activeTool === 'select') return;
+            const peg = pegAt(e);
+            if (!peg) return;
+            if (orbit) orbit.enabled = false;
+            const tool = store.activeTool;
+            drag.current = { pointerId: e.pointerId, tool, start: peg, last: peg };
+
+            if (tool === 'eyedropper') {
+                store.pickColor(peg.x, peg.y);
+            } else if (isShapeTool(tool)) {
+                setShapeStart(peg);
+            } else {
+                // Everything painted until the pointer lifts is one undo step
+                store.beginStroke();
+                if (tool === 'fill') store.fill(peg.x, peg.y);
+                else store.setCell(peg.x, peg.y);
+            }
+        };
+
+        const handleMove = (e: PointerEvent) => {
+            const peg = pegAt(e);
+            setHover(prev => samePeg(prev, peg) ? prev : peg);
+            const current = drag.current;
+            if (!current || current.pointerId !== e.pointerId || !peg || samePeg(current.last, peg)) return;
+            current.last = peg;
+            if (current.tool === 'pencil' || current.tool === 'eraser') useStore.getState().setCell(peg.x, peg.y);
+        };
+
+        const handleUp = (e: PointerEvent) => {
+            const current = drag.current;
+            if (!current || current.pointerId !== e.pointerId) return;
+            const store = useStore.getState();
+            if (isShapeTool(current.tool)) {
+                store.drawShape(shapePoints(current.tool, current.start, current.last, store.shapeFilled, store.selectedStampId));
+            }
+            store.endStroke();
+            finish();
+        };
+
+        const handleCancel = (e: PointerEvent) => {
+            if (!drag.current || drag.current.pointerId !== e.pointerId) return;
+            useStore.getState().cancelStroke();
+            finish();
+        };
+
+        const handleLeave = () => setHover(null);
+
+        const element = gl.domElement;
+        element.addEventListener('pointerdown', handleDown, true);
+        element.addEventListener('pointermove', handleMove);
+        element.addEventListener('pointerleave', handleLeave);
+        window.addEventListener('pointerup', handleUp);
+        window.addEventListener('pointercancel', handleCancel);
+        return () => {
+            element.removeEventListener('pointerdown', handleDown, true);
+            element.removeEventListener('pointermove', handleMove);
+            element.removeEventListener('pointerleave', handleLeave);
+            window.removeEventListener('pointerup', handleUp);
+            window.removeEventListener('pointercancel', handleCancel);
+            if (drag.current) useStore.getState().endStroke();
+            finish();
+        };
+    }, [gl, camera, controls, board]);
+
+    // Pegs the tool would change, the way the 2D editor previews them
+    const ghost = useMemo(() => {
+        if (!hover || activeTool === 'select') return [];
+        let points = [hover];
+        if (isShapeTool(activeTool)) points = shapePoints(activeTool, shapeStart ?? hover, hover, shapeFilled, selectedStampId);
+        else if (activeTool === 'pencil' || activeTool === 'eraser') points = symmetryPoints(hover.x, hover.y, symmetry, board);
+        return points.filter(({ x, y }) => isPegOnBoard(x, y, board));
+    }, [hover, shapeStart, activeTool, shapeFilled, selectedStampId, symmetry, board]);
+
+    const ghostColor = activeTool === 'eraser'
+        ? '#f43f5e'
+        : palette.find(p => p.id === (activeTool === 'eyedropper' && hover ? cells.get(`${hover.x},${hover.y}`) : selectedColorId))?.hex ?? '#ffffff';
+    const capacity = growCapacity(MIN_BEAD_CAPACITY, ghost.length);
+
+    useEffect(() => {
+        gl.domElement.style.cursor = ghost.length > 0 ? 'crosshair' : '';
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const tempObj = new THREE.Object3D();
+        ghost.forEach(({ x, y }, i) => {
+            const [px, py, pz] = gridToWorld(x, y, board);
+            // Slightly larger than a bead, so it shows around one already there
+            tempObj.position.set(px, py + 0.05 + 0.22, pz);
+            tempObj.scale.setScalar(1.08);
+            tempObj.updateMatrix();
+            mesh.setMatrixAt(i, tempObj.matrix);
+        });
+        mesh.count = ghost.length;
+        mesh.instanceMatrix.needsUpdate = true;
+        invalidate();
+    }, [ghost, board, capacity, gl, invalidate]);
+
+    useEffect(() => () => { gl.domElement.style.cursor = ''; }, [gl]);
 
     return (
-        <instancedMesh ref={meshRef} args={[BeadGeom, undefined, count]} castShadow receiveShadow>
-            <meshPhysicalMaterial 
-                roughness={0.2} 
-                metalness={0.05} 
-                clearcoat={0.6} 
-                clearcoatRoughness={0.15}
-            />
+        <instancedMesh key={capacity} ref={meshRef} args={[BeadGeom, undefined, capacity]} frustumCulled={false}>
+            <meshStandardMaterial color={ghostColor} transparent opacity={0.5} depthWrite={false} />
         </instancedMesh>
     );
 };
 
-const BoardBase: React.FC = () => {
+const BoardBase: React.FC<{ transmission: boolean }> = ({ transmission }) => {
     const { board } = useStore();
-    const width = (board.cols * board.pegPitchMm) / 10 + 0.6; // Margin
-    const depth = (board.rows * board.pegPitchMm) / 10 + 0.6;
+    // Mosaics get one plate per board, edge to edge with a hairline seam
+    const tiles = mosaicTiles(board);
+    const single = tileSpec(board);
+    const seam = tiles.length > 1 ? 0.02 : 0;
+    const width = single.widthMm / 10 - seam;
+    const depth = single.heightMm / 10 - seam;
     const thickness = 0.15;
 
+    // Shaped boards extrude their outline instead of a rounded box
+    const plateGeom = useMemo(
+        () => board.shape && board.shape !== 'rect' ? createBoardPlateGeometry(board, thickness, 0.1) : null,
+        [board]
+    );
+    useEffect(() => () => plateGeom?.dispose(), [plateGeom]);
+
+    // Refraction renders the scene again every frame; weak devices get plain see-through plastic
+    const material = transmission ? (
+        <MeshTransmissionMaterial 
+            backside
+            samples={6} // Keep low for performance, increase for high-end
+            thickness={0.5}
+            roughness={0.1}
+            chromaticAberration={0.04}
+            anisotropy={0.1}
+            color="#ffffff"
+            resolution={512}
+        />
+    ) : (
+        <meshStandardMaterial color="#ffffff" transparent opacity={0.35} roughness={0.1} />
+    );
+
+    if (plateGeom) {
+        return (
+            <mesh geometry={plateGeom} castShadow receiveShadow>
+                {material}
+            </mesh>
+        );
+    }
+
     return (
         <group position={[0, -thickness/2, 0]}>
             {/* Main Clear Plastic Board */}
-            <RoundedBox args={[width, thickness, depth]} radius={0.15} smoothness={4} castShadow receiveShadow>
-                <MeshTransmissionMaterial 
-                    backside
-                    samples={6} // Keep low for performance, increase for high-end
-                    thickness={0.5}
-                    roughness={0.1}
-                    chromaticAberration={0.04}
-                    anisotropy={0.1}
-                    color="#ffffff"
-                    resolution={512}
-                />
-            </RoundedBox>
+            {tiles.map(tile => {
+                const { u, v } = tileCenter(board, tile);
+                return (
+                    <RoundedBox
+                        key={tile.label}
+                        args={[width, thickness, depth]}
+                        position={[(u * board.pegPitchMm) / 10, 0, (v * board.pegPitchMm) / 10]}
+                        radius={0.15}
+                        smoothness={4}
+                        castShadow
+                        receiveShadow
+                    >
+                        {material}
+                    </RoundedBox>
+                );
+            })}
         </group>
     );
 }
 
 export const Scene3D: React.FC<{ interactive?: boolean }> = ({ interactive = false }) => {
-  const { board, setCell } = useStore();
-  const orbitRef = useRef<any>(null);
-
-  // Raycasting for "Play Mode" placement
-  const handlePointerDown = (e: any) => {
-    if (!interactive) return;
-    e.stopPropagation();
-    const [hitX, , hitZ] = e.point.toArray();
-    
-    // Recalculate grid based on board geometry math
-    const pitch = board.pegPitchMm / 10;
-    const totalWidth = (board.cols - 1) * pitch;
-    const totalDepth = (board.rows - 1) * pitch;
-    const startX = -totalWidth / 2;
-    const startZ = -totalDepth / 2;
-
-    const col = Math.round((hitX - startX) / pitch);
-    const row = Math.round((hitZ - startZ) / pitch);
-
-    if (col >= 0 && col < board.cols && row >= 0 && row < board.rows) {
-        setCell(col, row);
-    }
-  };
+  const { renderQuality } = useStore();
+  const settings = useMemo(() => qualitySettings(renderQuality), [renderQuality]);
 
+  // Frames are drawn only when something changes, not 60 times a second
   return (
     <Canvas 
-        shadows 
-        dpr={[1, 2]} 
+        frameloop="demand"
+        shadows={settings.shadows} 
+        dpr={settings.dpr} 
         gl={{ antialias: true, toneMapping: THREE.ACESFilmicToneMapping, toneMappingExposure: 1.2 }}
     >
       <PerspectiveCamera makeDefault position={[0, 15, 10]} fov={35} />
@@ -205,30 +469,34 @@ export const Scene3D: React.FC<{ interactive?: boolean }> = ({ interactive = fal
       <directionalLight 
         position={[8, 15, 8]} 
         intensity={1.5} 
-        castShadow 
+        castShadow={settings.shadows} 
         shadow-mapSize={[1024, 1024]}
         shadow-bias={-0.0001}
       />
       {/* Fill Light */}
       <directionalLight position={[-5, 5, -5]} intensity={0.5} color="#e0f2fe" />
 
-      <group onPointerDown={handlePointerDown}>
-        <BoardBase />
+      <group>
+        <BoardBase transmission={settings.transmission} />
         <Pegs />
-        <Cylinders />
+        <Cylinders physical={settings.physicalBeads} />
+        <GuideMarkers />
       </group>
+      {interactive && <BoardPainter />}
 
-      <ContactShadows 
-        position={[0, -0.1, 0]} 
-        opacity={0.5} 
-        scale={40} 
-        blur={2.5} 
-        far={1.5} 
-        color="#0f172a" 
-      />
+      {settings.contactShadows && (
+        <ContactShadows 
+          position={[0, -0.1, 0]} 
+          opacity={0.5} 
+          scale={40} 
+          blur={2.5} 
+          far={1.5} 
+          color="#0f172a" 
+        />
+      )}
       
       <OrbitControls 
-        ref={orbitRef} 
+        makeDefault
         minPolarAngle={0} 
         maxPolarAngle={Math.PI / 2.2} 
         minDistance={5}
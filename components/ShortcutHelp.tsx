@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { SHORTCUTS, ShortcutGroup, formatKeys } from '../utils/shortcuts';
+import { X } from 'lucide-react';
+
+const GROUPS: ShortcutGroup[] = ['Tools', 'Colors', 'Edit', 'Editor', 'Help'];
+
+export const ShortcutHelp: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  // Focus moves into the dialog, and back to where it was on close
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  return (
+    <div
+      className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4"
+      onClick={onClose}
+      onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+    >
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 id="shortcut-help-title" className="font-bold text-slate-800">Keyboard Shortcuts</h2>
+          <button ref={closeRef} onClick={onClose} aria-label="Close shortcuts" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 grid sm:grid-cols-2 gap-x-6 gap-y-4 text-sm">
+          {GROUPS.map(group => (
+            <section key={group} aria-label={group}>
+              <h3 className="text-xs font-semibold uppercase text-slate-400 mb-1">
+                {group === 'Editor' ? 'On the board' : group}
+              </h3>
+              <dl className="flex flex-col gap-1">
+                {SHORTCUTS.filter(s => s.group === group).map(s => (
+                  <div key={s.id} className="flex items-baseline justify-between gap-3">
+                    <dt className="text-slate-600">{s.label}</dt>
+                    <dd>
+                      <kbd className="px-1.5 py-0.5 rounded bg-slate-100 border border-slate-200 text-xs text-slate-700 whitespace-nowrap">
+                        {s.display ?? s.keys.map(formatKeys).join(' / ')}
+                      </kbd>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+        <p className="px-5 pb-5 text-xs text-slate-400">
+          Click the board or press Tab to reach it, then use the arrow keys and Enter to place beads without a mouse.
+        </p>
+      </div>
+    </div>
+  );
+};
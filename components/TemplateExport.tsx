@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { useStore } from '../store';
+import {
+  PAPER_SIZES, PaperOrientation, TemplateOptions, generateTemplatePDF, templateLayout
+} from '../utils/templatePdf';
+import { X } from 'lucide-react';
+import clsx from 'clsx';
+
+export const TemplateExport: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { board, palette, exportPattern } = useStore();
+  const [options, setOptions] = useState<TemplateOptions>({
+    paper: 'a4', orientation: 'portrait', overlapMm: 10, colors: true
+  });
+
+  const layout = templateLayout(board, options);
+  const pages = layout.across * layout.down;
+
+  const handleExport = () => {
+    generateTemplatePDF(exportPattern(), board, palette, options);
+    onClose();
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/30 flex items-center justify-center z-40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-sm max-h-full overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="True-size template"
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-bold text-slate-800">True-Size Template</h2>
+          <button onClick={onClose} aria-label="Close template export" className="p-1 text-slate-400 hover:text-slate-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-4 text-sm">
+          <p className="text-xs text-slate-400">
+            Prints the board at its real size ({Math.round(layout.bounds.width)} × {Math.round(layout.bounds.height)} mm) to lay under a clear pegboard.
+          </p>
+          <div className="grid grid-cols-2 gap-3 text-xs text-slate-500">
+            <label className="flex flex-col gap-1">
+              Paper
+              <select
+                value={options.paper}
+                onChange={(e) => setOptions({ ...options, paper: e.target.value as TemplateOptions['paper'] })}
+                className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+              >
+                {PAPER_SIZES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Overlap (mm)
+              <input
+                type="number"
+                min={0}
+                max={30}
+                value={options.overlapMm}
+                onChange={(e) => setOptions({ ...options, overlapMm: Math.max(0, Number(e.target.value) || 0) })}
+                className="px-2 py-1.5 rounded bg-slate-100 text-slate-800 text-sm"
+              />
+            </label>
+          </div>
+          <div className="flex bg-slate-100 rounded-lg p-1 gap-1">
+            {(['portrait', 'landscape'] as PaperOrientation[]).map(o => (
+              <button
+                key={o}
+                onClick={() => setOptions({ ...options, orientation: o })}
+                className={clsx("flex-1 py-1.5 rounded capitalize", options.orientation === o ? "bg-white shadow text-brand-600" : "text-slate-500")}
+              >
+                {o}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-slate-700">
+            <input type="checkbox" checked={options.colors} onChange={() => setOptions({ ...options, colors: !options.colors })} />
+            Print the design's colors
+          </label>
+          <p className="text-xs text-slate-500">
+            {pages === 1 ? 'Fits on one page.' : `${pages} pages (${layout.across} × ${layout.down}) plus an overview.`}
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 pb-5">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-slate-600 hover:bg-slate-100">Cancel</button>
+          <button onClick={handleExport} className="px-4 py-2 rounded-lg bg-brand-500 text-white hover:bg-brand-600">
+            Download PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
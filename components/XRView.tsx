@@ -1,9 +1,11 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { XR, createXRStore } from '@react-three/xr';
 import * as THREE from 'three';
-import { useStore } from '../store';
+import { useCompositeCells, useStore } from '../store';
 import { gridToWorld, parseKey } from '../utils/coords';
+import { isPegOnBoard } from '../utils/boardShape';
+import { createBoardPlateGeometry } from '../utils/boardGeometry';
 import { 
     Move, RotateCw, Scaling, Video, AlertCircle, 
     ArrowUp, ArrowDown, ArrowLeft, ArrowRight, 
@@ -27,14 +29,23 @@ const DEFAULT_CALIBRATION: CalibrationState = { x: 0, y: 0, z: -0.5, rotation: 0
 
 // --- 3D Content Component ---
 const XRContent: React.FC<{ calibration: CalibrationState; showGhost?: boolean }> = ({ calibration, showGhost }) => {
-    const { board, cells, palette } = useStore();
+    const { board, palette } = useStore();
+    const cells = useCompositeCells();
     
     // Scale factor: Grid units (cm) to Meters. 1 unit = 1cm = 0.01m
     const BASE_SCALE = 0.01; 
     const finalScale = BASE_SCALE * calibration.scale;
 
-    const width = (board.cols * board.pegPitchMm) / 10; // in cm units
-    const depth = (board.rows * board.pegPitchMm) / 10; // in cm units
+    // Content below is laid out in mm (gridToWorld cm * 10)
+    const width = board.widthMm;
+    const depth = board.heightMm;
+
+    // Shaped boards use their outline instead of a box
+    const plateGeom = useMemo(
+        () => board.shape && board.shape !== 'rect' ? createBoardPlateGeometry(board, 0.5, 1) : null,
+        [board]
+    );
+    useEffect(() => () => plateGeom?.dispose(), [plateGeom]);
 
     return (
         <group 
@@ -45,10 +56,16 @@ const XRContent: React.FC<{ calibration: CalibrationState; showGhost?: boolean }
              {/* Ghost Board for Alignment */}
             {showGhost && (
                 <group position={[0, -0.5, 0]}>
-                    <mesh receiveShadow>
-                        <boxGeometry args={[width, 1, depth]} />
-                        <meshBasicMaterial color="#ffffff" transparent opacity={0.1} wireframe />
-                    </mesh>
+                    {plateGeom ? (
+                        <mesh geometry={plateGeom} position={[0, 0.5, 0]} receiveShadow>
+                            <meshBasicMaterial color="#ffffff" transparent opacity={0.1} wireframe />
+                        </mesh>
+                    ) : (
+                        <mesh receiveShadow>
+                            <boxGeometry args={[width, 1, depth]} />
+                            <meshBasicMaterial color="#ffffff" transparent opacity={0.1} wireframe />
+                        </mesh>
+                    )}
                     <mesh position={[0, -0.5, 0]}>
                          <gridHelper args={[Math.max(width, depth) * 2, 20, 0x0ea5e9, 0x333333]} />
                     </mesh>
@@ -56,14 +73,21 @@ const XRContent: React.FC<{ calibration: CalibrationState; showGhost?: boolean }
             )}
 
             {/* Solid Board Base (Invisible in AR mostly, but helps occlusion if we had it) */}
-            <mesh position={[0, -0.5, 0]}>
-                <boxGeometry args={[width, 0.5, depth]} />
-                <meshStandardMaterial color="#ffffff" transparent opacity={0.1} />
-            </mesh>
+            {plateGeom ? (
+                <mesh geometry={plateGeom} position={[0, -0.25, 0]}>
+                    <meshStandardMaterial color="#ffffff" transparent opacity={0.1} />
+                </mesh>
+            ) : (
+                <mesh position={[0, -0.5, 0]}>
+                    <boxGeometry args={[width, 0.5, depth]} />
+                    <meshStandardMaterial color="#ffffff" transparent opacity={0.1} />
+                </mesh>
+            )}
 
             {/* Cylinders */}
             {Array.from(cells.entries()).map(([key, colorId]) => {
                 const {x, y} = parseKey(key);
+                if (!isPegOnBoard(x, y, board)) return null;
                 const [px, py, pz] = gridToWorld(x, y, board);
                 const color = palette.find(p => p.id === colorId)?.hex;
                 return (
@@ -1,35 +1,116 @@
+import { useMemo } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { BoardSpec, CellKey, DEFAULT_BOARD, DEFAULT_PALETTE, PaletteColor, Pattern, ToolType } from './types';
-import { makeKey, parseKey } from './utils/coords';
+import { 
+  BoardSpec, CellKey, DEFAULT_BOARD, DEFAULT_PALETTE, PATTERN_VERSION, PaletteColor, Pattern, 
+  RenderQuality, SavedPalette, SymmetryMode, ToolType 
+} from './types';
+import { getNeighbors, makeKey, parseKey } from './utils/coords';
+import { GridPoint, STAMPS } from './utils/shapes';
+import { 
+  FloatingRegion, Region, SelectionRect, clampRegionPosition, 
+  extractRegion, flipRegion, rotateRegion 
+} from './utils/selection';
+import { symmetryPoints } from './utils/symmetry';
+import { RemapMode, remapCells } from './utils/boards';
+import { isPegOnBoard } from './utils/boardShape';
+import { uniqueColorId } from './utils/paletteIO';
+import { 
+  CellChange, DEFAULT_HISTORY_LIMIT, HistoryEntry, applyChanges, 
+  diffCells, formatHistoryLabel, mergeChanges, trimHistory 
+} from './utils/history';
+import { 
+  Layer, compositeCells, createLayer, layerFromRecord, layerToRecord, resolveLayers, usedColorIds 
+} from './utils/layers';
+import { BuildOrder, buildSteps } from './utils/buildSteps';
+import { ClassPlanItem, Inventory } from './utils/inventory';
 import { v4 as uuidv4 } from 'uuid';
 
 interface AppState {
   // Data
   board: BoardSpec;
-  cells: Map<CellKey, string>; // We use Map for runtime perf, convert to Obj for persistence
+  cells: Map<CellKey, string>; // Active layer's pegs. We use Map for runtime perf, convert to Obj for persistence
+  layers: Layer[]; // Bottom to top; the active layer's `cells` entry is stale, see resolveLayers
+  activeLayerId: string;
   palette: PaletteColor[];
+  savedPalettes: SavedPalette[];
   metadata: Pattern['metadata'];
+  patternId: string; // Library id of the design being edited
+  inventory: Inventory; // Beads the teacher has in stock
+  classPlan: ClassPlanItem[]; // Patterns a class will make, by library id
   
   // UI State
   selectedColorId: string;
   activeTool: ToolType;
   showGrid: boolean;
+  shapeFilled: boolean; // Rect/ellipse tools draw solid shapes
+  selectedStampId: string;
+  symmetry: SymmetryMode;
   viewMode: '2D' | '3D' | 'XR';
+  guide: { order: BuildOrder; step: number } | null; // Step-by-step build mode
+
+  // Selection / Clipboard
+  selection: SelectionRect | null;
+  clipboard: (Region & { x: number; y: number }) | null;
+  floating: FloatingRegion | null;
   
   // History
-  history: Array<Map<CellKey, string>>;
-  historyPointer: number;
+  history: HistoryEntry[];
+  historyPointer: number; // Number of entries currently applied
+  historyLimit: number;
+  renderQuality: RenderQuality;
+  activeStrokeId: string | null; // Set between beginStroke/endStroke
 
   // Actions
+  setBoard: (board: BoardSpec, mode?: RemapMode) => void;
   setCell: (x: number, y: number) => void;
   fill: (x: number, y: number) => void;
+  drawShape: (points: GridPoint[]) => void;
   clearBoard: () => void;
   setColor: (id: string) => void;
+  pickColor: (x: number, y: number) => void;
+  addColor: (color: Omit<PaletteColor, 'id'>) => void;
+  updateColor: (id: string, patch: Partial<Omit<PaletteColor, 'id'>>) => void;
+  removeColor: (id: string) => void;
+  moveColor: (id: string, toIndex: number) => void;
+  setPalette: (colors: PaletteColor[]) => void; // Ignored if it drops a color that still has beads
+  savePalette: (name: string) => void;
+  loadSavedPalette: (id: string) => void;
+  deleteSavedPalette: (id: string) => void;
+  setOwned: (colorId: string, count: number) => void;
+  setPlanCopies: (patternId: string, copies: number) => void;
   setTool: (tool: ToolType) => void;
+  setShapeFilled: (filled: boolean) => void;
+  setStamp: (id: string) => void;
+  setSymmetry: (mode: SymmetryMode) => void;
   undo: () => void;
   redo: () => void;
+  jumpToHistory: (pointer: number) => void;
+  setHistoryLimit: (limit: number) => void;
+  setRenderQuality: (quality: RenderQuality) => void;
+  beginStroke: () => void;
+  endStroke: () => void;
+  cancelStroke: () => void; // Takes back whatever the open stroke painted
   setViewMode: (mode: '2D' | '3D' | 'XR') => void;
+  setSelection: (rect: SelectionRect | null) => void;
+  copySelection: () => void;
+  cutSelection: () => void;
+  pasteClipboard: () => void;
+  liftSelection: () => void;
+  moveFloating: (x: number, y: number) => void;
+  flipSelection: (axis: 'horizontal' | 'vertical') => void;
+  rotateSelection: () => void;
+  commitFloating: () => void;
+  cancelFloating: () => void;
+  addLayer: () => void;
+  removeLayer: (id: string) => void;
+  setActiveLayer: (id: string) => void;
+  updateLayer: (id: string, patch: Partial<Pick<Layer, 'name' | 'visible' | 'locked' | 'opacity'>>) => void;
+  moveLayer: (id: string, toIndex: number) => void;
+  startGuide: (order: BuildOrder) => void;
+  setGuideStep: (step: number) => void;
+  stopGuide: () => void;
+  setMetadata: (patch: Partial<Pattern['metadata']>) => void;
   loadPattern: (pattern: Pattern) => void;
   exportPattern: () => Pattern;
 }
@@ -38,146 +119,655 @@ interface AppState {
 const mapToRecord = (map: Map<string, string>) => Object.fromEntries(map);
 const recordToMap = (record: Record<string, string>) => new Map(Object.entries(record));
 
+// Drawing is ignored on hidden or locked layers
+const canEdit = (state: AppState) => {
+  const layer = state.layers.find(l => l.id === state.activeLayerId);
+  return !!layer && layer.visible && !layer.locked;
+};
+
+/**
+ * Appends `changes` as a new undo step, or folds them into the open stroke's entry.
+ */
+const recordHistory = (state: AppState, changes: CellChange[], action: string) => {
+  const { history, historyPointer, historyLimit, activeStrokeId, activeLayerId } = state;
+  const top = history[historyPointer - 1];
+
+  if (activeStrokeId && top?.id === activeStrokeId) {
+    const merged = mergeChanges(top.changes, changes);
+    const entry = { ...top, changes: merged, label: formatHistoryLabel(top.action, merged) };
+    return { history: [...history.slice(0, historyPointer - 1), entry], historyPointer };
+  }
+
+  const entry: HistoryEntry = {
+    id: activeStrokeId || uuidv4(),
+    action,
+    label: formatHistoryLabel(action, changes),
+    timestamp: Date.now(),
+    changes,
+    layerId: activeLayerId,
+  };
+  const newHistory = [...history.slice(0, historyPointer), entry];
+  return trimHistory(newHistory, newHistory.length, historyLimit);
+};
+
+/**
+ * Replays a history entry on the layer it was recorded on, which need not be the active one.
+ */
+const applyToLayer = (state: AppState, entry: HistoryEntry, direction: 'forward' | 'backward') => {
+  const { cells, layers, activeLayerId } = state;
+  if (!entry.layerId || entry.layerId === activeLayerId) {
+    return { cells: applyChanges(cells, entry.changes, direction) };
+  }
+  // Steps on deleted layers are skipped
+  return {
+    layers: layers.map(l => l.id === entry.layerId ? { ...l, cells: applyChanges(l.cells, entry.changes, direction) } : l)
+  };
+};
+
+const SHAPE_ACTIONS: Partial<Record<ToolType, string>> = {
+  line: 'Line',
+  rect: 'Rectangle',
+  ellipse: 'Ellipse',
+  stamp: 'Stamp',
+};
+
+const initialLayer = createLayer('Layer 1');
+
 export const useStore = create<AppState>()(
   persist(
     (set, get) => ({
       board: DEFAULT_BOARD,
       cells: new Map(),
+      layers: [initialLayer],
+      activeLayerId: initialLayer.id,
       palette: DEFAULT_PALETTE,
+      savedPalettes: [],
       metadata: {
         title: 'My Pattern',
         author: 'Artist',
         difficulty: 'Easy',
         created: Date.now(),
       },
+      patternId: uuidv4(),
+      inventory: {},
+      classPlan: [],
       selectedColorId: DEFAULT_PALETTE[0].id,
       activeTool: 'pencil',
       showGrid: true,
+      shapeFilled: false,
+      selectedStampId: STAMPS[0].id,
+      symmetry: 'none',
       viewMode: '2D',
-      history: [new Map()],
+      guide: null,
+      selection: null,
+      clipboard: null,
+      floating: null,
+      history: [],
       historyPointer: 0,
+      historyLimit: DEFAULT_HISTORY_LIMIT,
+      renderQuality: 'auto',
+      activeStrokeId: null,
+
+      setBoard: (board, mode = 'center') => {
+        get().commitFloating();
+        const { cells, board: current, layers, activeLayerId } = get();
+        // Cell history is not valid across a size change, so the log starts over
+        set({
+          board,
+          cells: remapCells(cells, current, board, mode),
+          layers: layers.map(l => l.id === activeLayerId ? l : { ...l, cells: remapCells(l.cells, current, board, mode) }),
+          history: [],
+          historyPointer: 0,
+          activeStrokeId: null,
+          selection: null,
+          floating: null
+        });
+      },
 
       setCell: (x, y) => {
-        const { cells, selectedColorId, activeTool, history, historyPointer } = get();
-        const key = makeKey(x, y);
-        const currentVal = cells.get(key);
+        if (!canEdit(get())) return;
+        const { cells, board, selectedColorId, activeTool, symmetry } = get();
         
         // Determine new value based on tool
         let newVal: string | undefined = selectedColorId;
         if (activeTool === 'eraser') newVal = undefined;
 
-        if (currentVal === newVal) return; // No change
+        // Mirrored positions share the same history entry
+        const keys = symmetryPoints(x, y, symmetry, board)
+            .map(p => makeKey(p.x, p.y))
+            .filter(key => cells.get(key) !== newVal);
+
+        if (keys.length === 0) return; // No change
 
         // Clone map for immutability
         const newCells = new Map(cells);
-        if (newVal) newCells.set(key, newVal);
-        else newCells.delete(key);
-
-        // Update History
-        const newHistory = history.slice(0, historyPointer + 1);
-        newHistory.push(newCells);
+        keys.forEach(key => {
+            if (newVal) newCells.set(key, newVal);
+            else newCells.delete(key);
+        });
 
         set({
           cells: newCells,
-          history: newHistory,
-          historyPointer: newHistory.length - 1
+          ...recordHistory(get(), diffCells(cells, newCells), newVal ? 'Draw' : 'Erase')
         });
       },
 
       fill: (startX, startY) => {
-         const { cells, board, selectedColorId, history, historyPointer } = get();
-         const targetKey = makeKey(startX, startY);
-         const targetColor = cells.get(targetKey);
-         
-         if (targetColor === selectedColorId) return;
+         if (!canEdit(get())) return;
+         const { cells, board, selectedColorId, symmetry } = get();
+         const newCells = new Map(cells);
+         let changed = false;
+
+         // Flood from each mirrored seed; regions are matched against the original colors
+         symmetryPoints(startX, startY, symmetry, board).forEach(seed => {
+            const targetColor = cells.get(makeKey(seed.x, seed.y));
+            if (targetColor === selectedColorId) return;
 
+            const queue = [[seed.x, seed.y]];
+            const visited = new Set<string>();
+
+            while (queue.length > 0) {
+               const [x, y] = queue.pop()!;
+               const key = makeKey(x, y);
+               
+               if (visited.has(key)) continue;
+               // Check bounds
+               if (!isPegOnBoard(x, y, board)) continue;
+               
+               const currentColor = cells.get(key);
+               if (currentColor === targetColor && newCells.get(key) !== selectedColorId) {
+                   newCells.set(key, selectedColorId);
+                   visited.add(key);
+                   changed = true;
+                   
+                   getNeighbors(x, y, board).forEach(n => queue.push([n.x, n.y]));
+               }
+            }
+         });
+
+         if (!changed) return;
+
+         set({ cells: newCells, ...recordHistory(get(), diffCells(cells, newCells), 'Fill') });
+      },
+
+      drawShape: (points) => {
+         if (!canEdit(get())) return;
+         const { cells, board, selectedColorId, activeTool } = get();
          const newCells = new Map(cells);
-         const queue = [[startX, startY]];
-         const visited = new Set<string>();
+         let changed = false;
 
-         while (queue.length > 0) {
-            const [x, y] = queue.pop()!;
+         points.forEach(({ x, y }) => {
+            if (!isPegOnBoard(x, y, board)) return;
             const key = makeKey(x, y);
-            
-            if (visited.has(key)) continue;
-            // Check bounds
-            if (x < 0 || x >= board.cols || y < 0 || y >= board.rows) continue;
-            
-            const currentColor = newCells.get(key);
-            if (currentColor === targetColor) {
-                newCells.set(key, selectedColorId);
-                visited.add(key);
-                
-                queue.push([x + 1, y]);
-                queue.push([x - 1, y]);
-                queue.push([x, y + 1]);
-                queue.push([x, y - 1]);
-            }
-         }
+            if (newCells.get(key) === selectedColorId) return;
+            newCells.set(key, selectedColorId);
+            changed = true;
+         });
+
+         if (!changed) return;
 
-         const newHistory = history.slice(0, historyPointer + 1);
-         newHistory.push(newCells);
-         set({ cells: newCells, history: newHistory, historyPointer: newHistory.length - 1 });
+         // Whole shape is a single undo step
+         const action = SHAPE_ACTIONS[activeTool] || 'Draw';
+         set({ cells: newCells, ...recordHistory(get(), diffCells(cells, newCells), action) });
       },
 
       clearBoard: () => {
-         const { history, historyPointer } = get();
+         get().cancelFloating();
+         const { cells } = get();
+         if (cells.size === 0 || !canEdit(get())) return;
          const newCells = new Map<CellKey, string>();
-         const newHistory = history.slice(0, historyPointer + 1);
-         newHistory.push(newCells);
-         set({ cells: newCells, history: newHistory, historyPointer: newHistory.length - 1 });
+         set({ 
+           cells: newCells, 
+           ...recordHistory(get(), diffCells(cells, newCells), 'Clear'),
+           selection: null 
+         });
       },
 
       setColor: (id) => set({ selectedColorId: id }),
-      setTool: (tool) => set({ activeTool: tool }),
+
+      // Eyedropper: take the visible bead's color and go back to drawing with it
+      pickColor: (x, y) => {
+        const { cells, layers, activeLayerId } = get();
+        const colorId = compositeCells(resolveLayers(layers, activeLayerId, cells)).get(makeKey(x, y));
+        if (colorId) set({ selectedColorId: colorId, activeTool: 'pencil' });
+      },
+
+      addColor: (color) => {
+        const { palette } = get();
+        const id = uniqueColorId(color.name, new Set(palette.map(p => p.id)));
+        set({ palette: [...palette, { ...color, id }], selectedColorId: id });
+      },
+
+      updateColor: (id, patch) => {
+        set({ palette: get().palette.map(p => p.id === id ? { ...p, ...patch } : p) });
+      },
+
+      removeColor: (id) => {
+        const { palette, cells, layers, activeLayerId, selectedColorId } = get();
+        // Colors still used by pegs on any layer stay; erase those pegs first
+        const used = usedColorIds(resolveLayers(layers, activeLayerId, cells)).has(id);
+        if (palette.length <= 1 || used) return;
+        const next = palette.filter(p => p.id !== id);
+        set({ palette: next, selectedColorId: selectedColorId === id ? next[0].id : selectedColorId });
+      },
+
+      moveColor: (id, toIndex) => {
+        const { palette } = get();
+        const from = palette.findIndex(p => p.id === id);
+        if (from < 0) return;
+        const next = [...palette];
+        const [color] = next.splice(from, 1);
+        next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, color);
+        set({ palette: next });
+      },
+
+      setPalette: (colors) => {
+        if (colors.length === 0) return;
+        const { selectedColorId, cells, layers, activeLayerId } = get();
+        // Like removeColor: every color with beads on the board has to stay
+        const ids = new Set(colors.map(c => c.id));
+        const used = usedColorIds(resolveLayers(layers, activeLayerId, cells));
+        if (Array.from(used).some(id => !ids.has(id))) return;
+        set({
+          palette: colors,
+          selectedColorId: colors.some(c => c.id === selectedColorId) ? selectedColorId : colors[0].id
+        });
+      },
+
+      savePalette: (name) => {
+        const { palette, savedPalettes } = get();
+        const existing = savedPalettes.find(p => p.name === name);
+        const entry: SavedPalette = { id: existing?.id || uuidv4(), name, colors: palette };
+        set({
+          savedPalettes: existing
+            ? savedPalettes.map(p => p.id === existing.id ? entry : p)
+            : [...savedPalettes, entry]
+        });
+      },
+
+      loadSavedPalette: (id) => {
+        const saved = get().savedPalettes.find(p => p.id === id);
+        if (saved) get().setPalette(saved.colors);
+      },
+
+      deleteSavedPalette: (id) => {
+        set({ savedPalettes: get().savedPalettes.filter(p => p.id !== id) });
+      },
+
+      setOwned: (colorId, count) => {
+        set({ inventory: { ...get().inventory, [colorId]: Math.max(0, Math.round(count) || 0) } });
+      },
+
+      // Zero copies takes the pattern out of the plan
+      setPlanCopies: (patternId, copies) => {
+        const { classPlan } = get();
+        const count = Math.max(0, Math.round(copies) || 0);
+        if (count === 0) {
+          set({ classPlan: classPlan.filter(item => item.patternId !== patternId) });
+        } else if (classPlan.some(item => item.patternId === patternId)) {
+          set({ classPlan: classPlan.map(item => item.patternId === patternId ? { patternId, copies: count } : item) });
+        } else {
+          set({ classPlan: [...classPlan, { patternId, copies: count }] });
+        }
+      },
+      setTool: (tool) => {
+        if (tool !== 'select') {
+          get().commitFloating();
+          set({ selection: null });
+        }
+        set({ activeTool: tool });
+      },
+      setShapeFilled: (filled) => set({ shapeFilled: filled }),
+      setStamp: (id) => set({ selectedStampId: id }),
+      setSymmetry: (mode) => set({ symmetry: mode }),
       setViewMode: (mode) => set({ viewMode: mode }),
 
+      setSelection: (rect) => {
+        get().commitFloating();
+        set({ selection: rect });
+      },
+
+      copySelection: () => {
+        const { cells, selection, floating } = get();
+        if (floating) {
+          set({ clipboard: { ...floating, cells: new Map(floating.cells) } });
+        } else if (selection) {
+          set({ clipboard: { ...extractRegion(cells, selection), x: selection.x, y: selection.y } });
+        }
+      },
+
+      cutSelection: () => {
+        if (!canEdit(get())) return;
+        const { cells, selection, floating } = get();
+        if (floating) {
+          // Floating content is already off the board; dropping it removes it for good
+          set({ clipboard: { ...floating, cells: new Map(floating.cells) }, floating: null, selection: null });
+          if (floating.lifted) {
+            const before = new Map(cells);
+            floating.lifted.forEach((colorId, key) => before.set(key, colorId));
+            set(recordHistory(get(), diffCells(before, cells), 'Cut'));
+          }
+          return;
+        }
+        if (!selection) return;
+
+        const region = extractRegion(cells, selection);
+        const newCells = new Map(cells);
+        region.cells.forEach((_, key) => {
+          const { x, y } = parseKey(key);
+          newCells.delete(makeKey(selection.x + x, selection.y + y));
+        });
+
+        set({
+          cells: newCells,
+          clipboard: { ...region, x: selection.x, y: selection.y },
+          ...recordHistory(get(), diffCells(cells, newCells), 'Cut')
+        });
+      },
+
+      pasteClipboard: () => {
+        const { clipboard, board } = get();
+        if (!clipboard || !canEdit(get())) return;
+        get().commitFloating();
+
+        const pos = clampRegionPosition(clipboard.x, clipboard.y, clipboard.width, clipboard.height, board);
+        set({
+          activeTool: 'select',
+          floating: { width: clipboard.width, height: clipboard.height, cells: new Map(clipboard.cells), ...pos, lifted: null },
+          selection: { ...pos, width: clipboard.width, height: clipboard.height }
+        });
+      },
+
+      liftSelection: () => {
+        const { cells, selection, floating } = get();
+        if (!selection || floating || !canEdit(get())) return;
+
+        const region = extractRegion(cells, selection);
+        const newCells = new Map(cells);
+        const lifted = new Map<CellKey, string>();
+        region.cells.forEach((colorId, key) => {
+          const { x, y } = parseKey(key);
+          const absKey = makeKey(selection.x + x, selection.y + y);
+          newCells.delete(absKey);
+          lifted.set(absKey, colorId);
+        });
+
+        // No history entry yet: the lift and the drop are committed together
+        set({ cells: newCells, floating: { ...region, x: selection.x, y: selection.y, lifted } });
+      },
+
+      moveFloating: (x, y) => {
+        const { floating, board } = get();
+        if (!floating) return;
+        const pos = clampRegionPosition(x, y, floating.width, floating.height, board);
+        set({
+          floating: { ...floating, ...pos },
+          selection: { ...pos, width: floating.width, height: floating.height }
+        });
+      },
+
+      flipSelection: (axis) => {
+        get().liftSelection();
+        const { floating } = get();
+        if (!floating) return;
+        set({ floating: { ...floating, ...flipRegion(floating, axis) } });
+      },
+
+      rotateSelection: () => {
+        get().liftSelection();
+        const { floating, board } = get();
+        if (!floating) return;
+        const rotated = rotateRegion(floating);
+        const pos = clampRegionPosition(floating.x, floating.y, rotated.width, rotated.height, board);
+        set({
+          floating: { ...floating, ...rotated, ...pos },
+          selection: { ...pos, width: rotated.width, height: rotated.height }
+        });
+      },
+
+      commitFloating: () => {
+        const { cells, board, floating } = get();
+        if (!floating) return;
+
+        const newCells = new Map(cells);
+        floating.cells.forEach((colorId, key) => {
+          const { x, y } = parseKey(key);
+          const bx = floating.x + x;
+          const by = floating.y + y;
+          if (!isPegOnBoard(bx, by, board)) return;
+          newCells.set(makeKey(bx, by), colorId);
+        });
+
+        // Diff against the board as it was before the lift so move = one step
+        const before = new Map(cells);
+        floating.lifted?.forEach((colorId, key) => before.set(key, colorId));
+        set({
+          cells: newCells,
+          floating: null,
+          ...recordHistory(get(), diffCells(before, newCells), floating.lifted ? 'Move' : 'Paste')
+        });
+      },
+
+      cancelFloating: () => {
+        const { cells, floating } = get();
+        if (!floating) return;
+        const newCells = new Map(cells);
+        floating.lifted?.forEach((colorId, key) => newCells.set(key, colorId));
+        set({ cells: newCells, floating: null, selection: null });
+      },
+
       undo: () => {
+        get().cancelFloating();
         const { historyPointer, history } = get();
         if (historyPointer > 0) {
-            const newPointer = historyPointer - 1;
-            set({ cells: history[newPointer], historyPointer: newPointer });
+            const entry = history[historyPointer - 1];
+            set({ 
+              ...applyToLayer(get(), entry, 'backward'), 
+              historyPointer: historyPointer - 1, 
+              activeStrokeId: null 
+            });
         }
       },
 
       redo: () => {
+        get().cancelFloating();
         const { historyPointer, history } = get();
-        if (historyPointer < history.length - 1) {
-            const newPointer = historyPointer + 1;
-            set({ cells: history[newPointer], historyPointer: newPointer });
+        if (historyPointer < history.length) {
+            const entry = history[historyPointer];
+            set({ 
+              ...applyToLayer(get(), entry, 'forward'), 
+              historyPointer: historyPointer + 1, 
+              activeStrokeId: null 
+            });
+        }
+      },
+
+      jumpToHistory: (pointer) => {
+        const target = Math.max(0, Math.min(pointer, get().history.length));
+        while (get().historyPointer > target) get().undo();
+        while (get().historyPointer < target) get().redo();
+      },
+
+      setHistoryLimit: (limit) => {
+        const { history, historyPointer } = get();
+        const historyLimit = Math.max(1, Math.round(limit));
+        set({ historyLimit, ...trimHistory(history, historyPointer, historyLimit) });
+      },
+
+      setRenderQuality: (quality) => set({ renderQuality: quality }),
+
+      beginStroke: () => set({ activeStrokeId: uuidv4() }),
+      endStroke: () => set({ activeStrokeId: null }),
+      cancelStroke: () => {
+        const { activeStrokeId, history, historyPointer } = get();
+        if (activeStrokeId && history[historyPointer - 1]?.id === activeStrokeId) {
+            get().undo();
+            // Nothing to redo: the stroke never happened
+            set({ history: history.slice(0, historyPointer - 1) });
+        }
+        set({ activeStrokeId: null });
+      },
+
+      addLayer: () => {
+        get().commitFloating();
+        const { layers, cells, activeLayerId } = get();
+        const layer = createLayer(`Layer ${layers.length + 1}`);
+        // New layers go directly above the active one
+        const index = layers.findIndex(l => l.id === activeLayerId) + 1;
+        const next = resolveLayers(layers, activeLayerId, cells);
+        next.splice(index, 0, layer);
+        set({ layers: next, activeLayerId: layer.id, cells: layer.cells, selection: null });
+      },
+
+      removeLayer: (id) => {
+        const { layers, activeLayerId } = get();
+        if (layers.length <= 1) return;
+        if (id === activeLayerId) get().cancelFloating();
+        const index = layers.findIndex(l => l.id === id);
+        const next = layers.filter(l => l.id !== id);
+        if (id !== activeLayerId) {
+          set({ layers: next });
+          return;
         }
+        const active = next[Math.max(0, index - 1)];
+        set({ layers: next, activeLayerId: active.id, cells: active.cells, selection: null });
+      },
+
+      setActiveLayer: (id) => {
+        const { activeLayerId } = get();
+        if (id === activeLayerId) return;
+        get().commitFloating();
+        const { layers, cells } = get();
+        const next = resolveLayers(layers, activeLayerId, cells);
+        const active = next.find(l => l.id === id);
+        if (!active) return;
+        set({ layers: next, activeLayerId: id, cells: active.cells, selection: null, activeStrokeId: null });
+      },
+
+      updateLayer: (id, patch) => {
+        if (id === get().activeLayerId) get().commitFloating();
+        set({ layers: get().layers.map(l => l.id === id ? { ...l, ...patch } : l) });
+      },
+
+      moveLayer: (id, toIndex) => {
+        const { layers } = get();
+        const from = layers.findIndex(l => l.id === id);
+        if (from < 0) return;
+        const next = [...layers];
+        const [layer] = next.splice(from, 1);
+        next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, layer);
+        set({ layers: next });
       },
 
+      startGuide: (order) => set({ guide: { order, step: 0 } }),
+      setGuideStep: (step) => {
+        const { guide } = get();
+        if (guide) set({ guide: { ...guide, step: Math.max(0, step) } });
+      },
+      stopGuide: () => set({ guide: null }),
+
+      setMetadata: (patch) => set(state => ({ metadata: { ...state.metadata, ...patch } })),
+
       loadPattern: (pattern) => {
-        const newCells = recordToMap(pattern.cells);
+        const layers = pattern.layers?.length
+            ? pattern.layers.map(layerFromRecord)
+            : [createLayer('Layer 1', recordToMap(pattern.cells))];
+        const active = layers[layers.length - 1];
+        // The pattern brings its own colors, so the in-use check of setPalette doesn't apply
+        const palette = pattern.palette?.length ? pattern.palette : get().palette;
         set({
-            cells: newCells,
+            palette,
+            selectedColorId: palette.some(c => c.id === get().selectedColorId) ? get().selectedColorId : palette[0].id,
+            board: pattern.board || get().board,
+            cells: active.cells,
+            layers,
+            activeLayerId: active.id,
             metadata: pattern.metadata,
-            history: [newCells],
-            historyPointer: 0
+            patternId: pattern.id,
+            history: [],
+            historyPointer: 0,
+            activeStrokeId: null,
+            selection: null,
+            floating: null
         });
       },
 
       exportPattern: () => {
-        const { cells, metadata } = get();
+        const { cells, layers, activeLayerId, metadata, board, palette, patternId } = get();
+        const resolved = resolveLayers(layers, activeLayerId, cells);
         return {
-            id: uuidv4(),
+            version: PATTERN_VERSION,
+            id: patternId,
             metadata: { ...metadata, created: Date.now() },
-            cells: mapToRecord(cells)
+            cells: mapToRecord(compositeCells(resolved)),
+            board,
+            palette,
+            layers: resolved.map(layerToRecord)
         };
       }
     }),
     {
       name: 'pegpop-storage',
       partialize: (state) => ({
-        cells: mapToRecord(state.cells),
-        metadata: state.metadata
+        layers: resolveLayers(state.layers, state.activeLayerId, state.cells).map(layerToRecord),
+        activeLayerId: state.activeLayerId,
+        metadata: state.metadata,
+        patternId: state.patternId,
+        board: state.board,
+        palette: state.palette,
+        savedPalettes: state.savedPalettes,
+        inventory: state.inventory,
+        classPlan: state.classPlan,
+        historyLimit: state.historyLimit,
+        renderQuality: state.renderQuality
       }),
-      merge: (persisted: any, current) => ({
-        ...current,
-        cells: persisted.cells ? recordToMap(persisted.cells) : current.cells,
-        metadata: persisted.metadata || current.metadata,
-      })
+      merge: (persisted: any, current) => {
+        const palette: PaletteColor[] = persisted.palette?.length ? persisted.palette : current.palette;
+        // Older saves have a single cell map and no layers
+        const layers: Layer[] = persisted.layers?.length
+          ? persisted.layers.map(layerFromRecord)
+          : [createLayer('Layer 1', persisted.cells ? recordToMap(persisted.cells) : current.cells)];
+        const active = layers.find(l => l.id === persisted.activeLayerId) || layers[layers.length - 1];
+        return {
+          ...current,
+          cells: active.cells,
+          layers,
+          activeLayerId: active.id,
+          metadata: persisted.metadata || current.metadata,
+          patternId: persisted.patternId || current.patternId,
+          board: persisted.board || current.board,
+          palette,
+          selectedColorId: palette[0].id,
+          savedPalettes: persisted.savedPalettes || current.savedPalettes,
+          inventory: persisted.inventory || current.inventory,
+          classPlan: persisted.classPlan || current.classPlan,
+          historyLimit: persisted.historyLimit || current.historyLimit,
+          renderQuality: persisted.renderQuality || current.renderQuality,
+        };
+      }
     }
   )
-);
\ No newline at end of file
+);
+
+/**
+ * Pegs as they'd be built: every visible layer flattened, top-most wins.
+ */
+export const useCompositeCells = () => {
+  const { cells, layers, activeLayerId } = useStore();
+  return useMemo(() => compositeCells(resolveLayers(layers, activeLayerId, cells)), [cells, layers, activeLayerId]);
+};
+
+/**
+ * Steps of the running build guide over the composite design, with the
+ * current one clamped to what exists. Null when the guide is off.
+ */
+export const useBuildGuide = () => {
+  const { board, palette, guide } = useStore();
+  const cells = useCompositeCells();
+  return useMemo(() => {
+    if (!guide) return null;
+    const steps = buildSteps(cells, board, palette, guide.order);
+    const current = Math.min(guide.step, Math.max(0, steps.length - 1));
+    return { steps, current, cells };
+  }, [cells, board, palette, guide]);
+};
@@ -6,6 +6,15 @@ export interface PaletteColor {
   metalness?: number;
 }
 
+export type BoardShape = 'rect' | 'circle' | 'hexagon' | 'heart' | 'star';
+
+export type BoardLattice = 'square' | 'hex';
+
+export interface MosaicLayout {
+  across: number; // Boards side by side
+  down: number; // Boards stacked top to bottom
+}
+
 export interface BoardSpec {
   widthMm: number;
   heightMm: number;
@@ -15,11 +24,30 @@ export interface BoardSpec {
   pegDiameterMm: number;
   pegHeightMm: number;
   marginMm: number; // Edge to first peg center
+  shape?: BoardShape; // Mask for non-rectangular boards; omitted = 'rect'
+  lattice?: BoardLattice; // 'hex' offsets odd rows by half a pitch; omitted = 'square'
+  mosaic?: MosaicLayout; // Set when the grid spans several joined boards; sizes above are totals
 }
 
+// Pegs along one side of a board; files and links past this are refused
+export const MAX_BOARD_PEGS = 1000;
+
 export type CellKey = string; // Format "x,y"
 
+// Bump when the saved Pattern format changes, and add a migration in utils/patternIO.ts
+export const PATTERN_VERSION = 3;
+
+export interface PatternLayer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+  cells: Record<CellKey, string>;
+}
+
 export interface Pattern {
+  version?: number; // Format version; files from before versioning omit it (= 1)
   id: string;
   metadata: {
     title: string;
@@ -28,9 +56,22 @@ export interface Pattern {
     created: number;
   };
   cells: Record<CellKey, string>; // Key: "x,y", Value: colorId
+  board?: BoardSpec; // Board the pattern was designed for; older files omit it
+  palette?: PaletteColor[]; // Colors the cells refer to; older files omit it
+  layers?: PatternLayer[]; // Bottom to top; `cells` is then the flattened visible result
+}
+
+export interface SavedPalette {
+  id: string;
+  name: string;
+  colors: PaletteColor[];
 }
 
-export type ToolType = 'pencil' | 'eraser' | 'fill' | 'line';
+export type ToolType = 'pencil' | 'eraser' | 'fill' | 'eyedropper' | 'line' | 'rect' | 'ellipse' | 'stamp' | 'select';
+
+export type SymmetryMode = 'none' | 'horizontal' | 'vertical' | 'both' | 'rotational';
+
+export type RenderQuality = 'auto' | 'high' | 'low'; // 3D preview; 'auto' picks by device
 
 export const DEFAULT_PALETTE: PaletteColor[] = [
   { id: 'red', name: 'Red', hex: '#ef4444' },
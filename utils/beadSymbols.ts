@@ -0,0 +1,25 @@
+import { PaletteColor } from '../types';
+import { hexToRgb, rgbToLab } from './imageQuantize';
+
+// Letters that can't be mistaken for each other or for a number (no I, O, Q, l, o...)
+const SYMBOLS = 'ABCDEFGHJKLMNPRSTUVWXYZ'.split('').concat('abdefghkmnqrtuy'.split(''));
+
+/**
+ * A printable symbol for every used color, in palette order, so sheets
+ * still read without color (colorblind kids, black-and-white copies).
+ * Past the single letters, symbols get a number: "A2", "B2"...
+ */
+export const colorSymbols = (palette: PaletteColor[], usedColorIds: Iterable<string>): Map<string, string> => {
+  const used = new Set(usedColorIds);
+  const symbols = new Map<string, string>();
+  palette.filter(p => used.has(p.id)).forEach((p, i) => {
+    const round = Math.floor(i / SYMBOLS.length);
+    symbols.set(p.id, `${SYMBOLS[i % SYMBOLS.length]}${round > 0 ? round + 1 : ''}`);
+  });
+  return symbols;
+};
+
+/**
+ * Gray level (0 or 255) that stays readable on top of `hex`.
+ */
+export const symbolInk = (hex: string) => (rgbToLab(hexToRgb(hex))[0] > 60 ? 0 : 255);
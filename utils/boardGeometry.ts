@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import { BoardSpec, DEFAULT_BOARD } from '../types';
+import { boardOutlinesMm } from './boardShape';
+
+// Bead sizes in scene units (1 unit = 10 mm)
+const BEAD = { outer: 0.22, hole: 0.14, depth: 0.44, bevel: 0.02 };
+// Ironed beads melt flat and spread until neighbors fuse; sizes are per mm of peg pitch,
+// with the radius a little over half the pitch so neighbors overlap
+const FUSED_BEAD_PER_PITCH = { outer: 0.052, hole: 0.016, depth: 0.052, bevel: 0.006 };
+
+const beadSize = (fused: boolean, pegPitchMm: number) => {
+  if (!fused) return BEAD;
+  const { outer, hole, depth, bevel } = FUSED_BEAD_PER_PITCH;
+  return { outer: outer * pegPitchMm, hole: hole * pegPitchMm, depth: depth * pegPitchMm, bevel: bevel * pegPitchMm };
+};
+
+/**
+ * Hollow tube bead with bevels, centered at the origin with its axis along Y.
+ * Fused beads are sized to the board's peg pitch.
+ */
+export const createBeadGeometry = (fused = false, pegPitchMm = DEFAULT_BOARD.pegPitchMm) => {
+  const size = beadSize(fused, pegPitchMm);
+  const shape = new THREE.Shape();
+  // Outer circle
+  shape.absarc(0, 0, size.outer, 0, Math.PI * 2, false);
+  // Inner hole
+  const hole = new THREE.Path();
+  hole.absarc(0, 0, size.hole, 0, Math.PI * 2, true);
+  shape.holes.push(hole);
+
+  const geom = new THREE.ExtrudeGeometry(shape, {
+    depth: size.depth,
+    bevelEnabled: true,
+    bevelThickness: size.bevel,
+    bevelSize: size.bevel,
+    bevelSegments: 3,
+    curveSegments: 16 // Optimized for performance
+  });
+
+  // Center geometry at origin for easier positioning
+  geom.center();
+  // Rotate to align with Y-up world (Extrude creates along Z)
+  geom.rotateX(Math.PI / 2);
+  return geom;
+};
+
+/**
+ * Height of a bead from createBeadGeometry, bevels included.
+ */
+export const beadHeight = (fused = false, pegPitchMm = DEFAULT_BOARD.pegPitchMm) => {
+  const size = beadSize(fused, pegPitchMm);
+  return size.depth + size.bevel * 2;
+};
+
+/**
+ * One of the board's pegs, sized from its spec, with its origin at the bottom.
+ */
+export const createPegGeometry = (board: BoardSpec) => {
+  const radius = board.pegDiameterMm / 2 / 10;
+  const height = board.pegHeightMm / 10;
+  const geom = new THREE.CylinderGeometry(radius, radius, height, 16);
+  geom.translate(0, height / 2, 0);
+  return geom;
+};
+
+/**
+ * Flat plate following the board outline (one piece per board of a mosaic), top face at y = 0.
+ * `unitsPerMm` converts to the caller's scene units (Scene3D uses 0.1).
+ */
+export const createBoardPlateGeometry = (board: BoardSpec, thickness: number, unitsPerMm: number) => {
+  const shapes = boardOutlinesMm(board).map(
+    outline => new THREE.Shape(outline.map(([x, y]) => new THREE.Vector2(x * unitsPerMm, y * unitsPerMm)))
+  );
+  const geom = new THREE.ExtrudeGeometry(shapes, { depth: thickness, bevelEnabled: false });
+  // Shape +y maps to world +z (row direction); extrusion points down
+  geom.rotateX(Math.PI / 2);
+  return geom;
+};
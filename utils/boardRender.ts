@@ -0,0 +1,222 @@
+import { BoardSpec, CellKey, PaletteColor } from '../types';
+import { latticeExtent, latticePosition, parseKey } from './coords';
+import { boardOutlinesMm, isPegOnBoard } from './boardShape';
+import { isMosaic, mosaicTiles, tileSpec } from './mosaic';
+import { Layer } from './layers';
+
+export const CELL_SIZE = 20; // Base pixel size of one peg pitch on screen
+
+export type Segment = [number, number, number, number]; // x1, y1, x2, y2
+
+export interface SceneBead {
+  key: CellKey;
+  cx: number;
+  cy: number;
+  color: string;
+  opacity: number; // The layer's opacity
+}
+
+/**
+ * Everything drawn for a board and its beads, in pixels from the top-left of
+ * the grid. Painted by the editor canvas and by the SVG/PNG exports, so they
+ * always match.
+ */
+export interface BoardScene {
+  cellSize: number;
+  width: number;
+  height: number;
+  outlines: Array<Array<[number, number]>> | null; // Shaped boards only; rectangles fill width × height
+  holes: Array<[number, number]>;
+  gridLines: Segment[]; // Empty on hex lattices, which have no straight cell boundaries
+  seams: Segment[]; // Where one board of a mosaic meets the next
+  tileLabels: Array<{ label: string; x: number; y: number }>;
+  beads: SceneBead[]; // Bottom layer first
+}
+
+export const pegCenter = (board: BoardSpec, x: number, y: number, cellSize = CELL_SIZE): [number, number] => {
+  const { u, v } = latticePosition(x, y, board);
+  return [(u + 0.5) * cellSize, (v + 0.5) * cellSize];
+};
+
+export type BoardBase = Omit<BoardScene, 'beads'>;
+
+/**
+ * The board without beads. Depends only on the board, so callers that
+ * redraw often can keep it while the beads change.
+ */
+export const buildBoardBase = (board: BoardSpec, cellSize = CELL_SIZE): BoardBase => {
+  const extent = latticeExtent(board);
+  const width = (extent.width + 1) * cellSize;
+  const height = (extent.height + 1) * cellSize;
+  const isShaped = !!board.shape && board.shape !== 'rect';
+
+  // Outline (includes margin) around the grid's center
+  const pxPerMm = cellSize / board.pegPitchMm;
+  const outlines = isShaped
+    ? boardOutlinesMm(board).map(outline => outline.map(([mx, my]): [number, number] => [
+        width / 2 + mx * pxPerMm,
+        height / 2 + my * pxPerMm,
+      ]))
+    : null;
+
+  const holes: Array<[number, number]> = [];
+  for (let x = 0; x < board.cols; x++) {
+    for (let y = 0; y < board.rows; y++) {
+      if (isPegOnBoard(x, y, board)) holes.push(pegCenter(board, x, y, cellSize));
+    }
+  }
+
+  const gridLines: Segment[] = [];
+  if (board.lattice !== 'hex') {
+    for (let i = 0; i <= board.cols; i++) gridLines.push([i * cellSize, 0, i * cellSize, height]);
+    for (let j = 0; j <= board.rows; j++) gridLines.push([0, j * cellSize, width, j * cellSize]);
+  }
+
+  const seams: Segment[] = [];
+  const tileLabels: BoardScene['tileLabels'] = [];
+  if (isMosaic(board)) {
+    const tile = tileSpec(board);
+    const rowStep = latticePosition(0, 1, board).v;
+    const hexShift = board.lattice === 'hex' ? cellSize / 4 : 0; // Average of even and odd row offsets
+    for (let x = tile.cols; x < board.cols; x += tile.cols) {
+      seams.push([x * cellSize + hexShift, 0, x * cellSize + hexShift, height]);
+    }
+    for (let y = tile.rows; y < board.rows; y += tile.rows) {
+      const sy = ((y - 0.5) * rowStep + 0.5) * cellSize;
+      seams.push([0, sy, width, sy]);
+    }
+    mosaicTiles(board).forEach(t => {
+      const [cx, cy] = pegCenter(board, t.x0, t.y0, cellSize);
+      tileLabels.push({ label: t.label, x: cx - cellSize / 2, y: cy - cellSize / 2 - cellSize / 10 });
+    });
+  }
+
+  return { cellSize, width, height, outlines, holes, gridLines, seams, tileLabels };
+};
+
+/**
+ * Beads of the visible layers, bottom layer first.
+ */
+export const buildSceneBeads = (
+  board: BoardSpec,
+  layers: Layer[],
+  palette: PaletteColor[],
+  cellSize = CELL_SIZE
+): SceneBead[] => {
+  const colors = new Map(palette.map(p => [p.id, p.hex]));
+  const beads: SceneBead[] = [];
+  layers.forEach(layer => {
+    if (!layer.visible) return;
+    layer.cells.forEach((colorId, key) => {
+      const { x, y } = parseKey(key);
+      const [cx, cy] = pegCenter(board, x, y, cellSize);
+      beads.push({ key, cx, cy, color: colors.get(colorId) || '#000', opacity: layer.opacity });
+    });
+  });
+
+  return beads;
+};
+
+export const buildBoardScene = (
+  board: BoardSpec,
+  layers: Layer[],
+  palette: PaletteColor[],
+  cellSize = CELL_SIZE
+): BoardScene => ({ ...buildBoardBase(board, cellSize), beads: buildSceneBeads(board, layers, palette, cellSize) });
+
+const strokeSegments = (ctx: CanvasRenderingContext2D, segments: Segment[]) => {
+  ctx.beginPath();
+  segments.forEach(([x1, y1, x2, y2]) => {
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+  });
+  ctx.stroke();
+};
+
+/**
+ * Board background, grid lines, mosaic seams and empty holes.
+ * `lineWidth` is the thin grid line width in the context's units.
+ */
+export const paintBoardBase = (
+  ctx: CanvasRenderingContext2D,
+  scene: BoardScene,
+  lineWidth: number,
+  showGrid = true
+) => {
+  const { cellSize } = scene;
+
+  ctx.save();
+  ctx.fillStyle = '#e2e8f0'; // Slate 200
+  if (scene.outlines) {
+    // Clipped so grid lines follow the shape
+    ctx.beginPath();
+    scene.outlines.forEach(outline => {
+      outline.forEach(([x, y], i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+      ctx.closePath();
+    });
+    ctx.fill();
+    ctx.clip();
+  } else {
+    ctx.fillRect(0, 0, scene.width, scene.height);
+  }
+  if (showGrid) {
+    ctx.strokeStyle = '#cbd5e1'; // Slate 300
+    ctx.lineWidth = lineWidth;
+    strokeSegments(ctx, scene.gridLines);
+  }
+  ctx.restore();
+
+  if (scene.seams.length > 0) {
+    ctx.strokeStyle = '#64748b'; // Slate 500
+    ctx.lineWidth = lineWidth * 2;
+    strokeSegments(ctx, scene.seams);
+
+    ctx.fillStyle = '#64748b';
+    ctx.font = `bold ${cellSize * 0.6}px sans-serif`;
+    ctx.textBaseline = 'bottom';
+    scene.tileLabels.forEach(t => ctx.fillText(t.label, t.x, t.y));
+  }
+
+  if (showGrid) {
+    ctx.fillStyle = '#94a3b8'; // Slate 400
+    scene.holes.forEach(([cx, cy]) => {
+      ctx.beginPath();
+      ctx.arc(cx, cy, cellSize / 4, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }
+};
+
+/**
+ * Beads as short cylinders seen from above: shadow, hole and a highlight.
+ * Beads in `faded` (e.g. later build steps) are drawn almost transparent.
+ */
+export const paintBeads = (ctx: CanvasRenderingContext2D, scene: BoardScene, faded?: Set<CellKey>) => {
+  const r = scene.cellSize * 0.4;
+  scene.beads.forEach(({ key, cx, cy, color, opacity }) => {
+    ctx.globalAlpha = faded?.has(key) ? opacity * 0.15 : opacity;
+
+    ctx.fillStyle = color;
+    ctx.shadowColor = 'rgba(0,0,0,0.2)';
+    ctx.shadowBlur = scene.cellSize * 0.2;
+    ctx.shadowOffsetY = scene.cellSize * 0.1;
+    ctx.beginPath();
+    ctx.arc(cx, cy, r, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Inner hole
+    ctx.shadowColor = 'transparent';
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.beginPath();
+    ctx.arc(cx, cy, r * 0.4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalCompositeOperation = 'source-over';
+
+    // Highlight (Fake 3D)
+    ctx.fillStyle = 'rgba(255,255,255,0.3)';
+    ctx.beginPath();
+    ctx.arc(cx - r * 0.2, cy - r * 0.2, r * 0.3, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.globalAlpha = 1;
+};
@@ -0,0 +1,107 @@
+import { BoardShape, BoardSpec } from '../types';
+import { latticeExtent, latticePosition } from './coords';
+import { mosaicTiles, tileCenter, tileSpec } from './mosaic';
+
+type Point = [number, number];
+
+export const BOARD_SHAPES: Array<{ id: BoardShape; name: string }> = [
+  { id: 'rect', name: 'Rectangle' },
+  { id: 'circle', name: 'Circle' },
+  { id: 'hexagon', name: 'Hexagon' },
+  { id: 'heart', name: 'Heart' },
+  { id: 'star', name: 'Star' },
+];
+
+/**
+ * Scales a polygon so its bounding box spans [-1, 1] on both axes.
+ */
+const normalize = (points: Point[]): Point[] => {
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  return points.map(([x, y]) => [
+    ((x - minX) / (maxX - minX)) * 2 - 1,
+    ((y - minY) / (maxY - minY)) * 2 - 1,
+  ]);
+};
+
+const polygon = (sides: number, radius: (i: number) => number, phase: number): Point[] =>
+  Array.from({ length: sides }, (_, i) => {
+    const a = phase + (i / sides) * Math.PI * 2;
+    return [Math.cos(a) * radius(i), Math.sin(a) * radius(i)];
+  });
+
+// Outlines in normalized board space: x right, y down (row direction)
+const OUTLINES: Record<Exclude<BoardShape, 'rect'>, Point[]> = {
+  circle: polygon(64, () => 1, 0),
+  hexagon: normalize(polygon(6, () => 1, 0)),
+  heart: normalize(
+    Array.from({ length: 64 }, (_, i) => {
+      const t = (i / 64) * Math.PI * 2;
+      const x = 16 * Math.pow(Math.sin(t), 3);
+      const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+      return [x, -y] as Point;
+    })
+  ),
+  star: normalize(polygon(10, i => (i % 2 === 0 ? 1 : 0.45), -Math.PI / 2)),
+};
+
+const RECT_OUTLINE: Point[] = [[-1, -1], [1, -1], [1, 1], [-1, 1]];
+
+export const shapeOutline = (shape: BoardShape = 'rect'): Point[] =>
+  shape === 'rect' ? RECT_OUTLINE : OUTLINES[shape];
+
+const pointInPolygon = ([px, py]: Point, points: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Whether (x, y) is a real peg: inside the grid and inside the board's shape mask.
+ */
+export const isPegOnBoard = (x: number, y: number, board: BoardSpec): boolean => {
+  if (x < 0 || x >= board.cols || y < 0 || y >= board.rows) return false;
+  if (!board.shape || board.shape === 'rect') return true;
+  // Every board of a mosaic carries its own mask, placed by its position in the whole
+  // lattice so hex row offsets stay right on boards that start on an odd row
+  const single = tileSpec(board);
+  const extent = latticeExtent(single);
+  const whole = latticeExtent(board);
+  const pos = latticePosition(x, y, board);
+  const center = board.mosaic
+    ? tileCenter(board, { x0: x - (x % single.cols), y0: y - (y % single.rows) })
+    : { u: 0, v: 0 };
+  // Peg center in normalized board space: half a pitch of padding on each edge,
+  // or the joined size of a mosaic board so the mask matches its outline
+  const halfWidth = board.mosaic ? single.widthMm / single.pegPitchMm / 2 : extent.width / 2 + 0.5;
+  const halfHeight = board.mosaic ? single.heightMm / single.pegPitchMm / 2 : extent.height / 2 + 0.5;
+  const u = (pos.u - whole.width / 2 - center.u) / halfWidth;
+  const v = (pos.v - whole.height / 2 - center.v) / halfHeight;
+  // Nudge toward the center so pegs exactly on an edge count consistently on both sides
+  return pointInPolygon([u * 0.999, v * 0.999], OUTLINES[board.shape]);
+};
+
+/**
+ * Board edge in mm, relative to the board center (x right, y down).
+ */
+export const boardOutlineMm = (board: BoardSpec): Point[] =>
+  shapeOutline(board.shape).map(([u, v]) => [u * board.widthMm / 2, v * board.heightMm / 2]);
+
+/**
+ * Outline of every physical board in mm, relative to the whole grid's center.
+ * A plain board yields just its own outline.
+ */
+export const boardOutlinesMm = (board: BoardSpec): Point[][] => {
+  if (!board.mosaic) return [boardOutlineMm(board)];
+  const outline = boardOutlineMm(tileSpec(board));
+  return mosaicTiles(board).map(tile => {
+    const { u, v } = tileCenter(board, tile);
+    return outline.map(([x, y]) => [x + u * board.pegPitchMm, y + v * board.pegPitchMm] as Point);
+  });
+};
@@ -0,0 +1,128 @@
+import { BoardSpec, CellKey, DEFAULT_BOARD } from '../types';
+import { latticeExtent, makeKey, parseKey } from './coords';
+import { isPegOnBoard } from './boardShape';
+
+export interface BoardPreset {
+  id: string;
+  name: string;
+  description: string;
+  board: BoardSpec;
+}
+
+export type RemapMode = 'crop' | 'center';
+
+/**
+ * Builds a full BoardSpec from the peg layout; outer size is derived so the
+ * margin is the same on every edge.
+ */
+export const makeBoard = (
+  spec: Omit<BoardSpec, 'widthMm' | 'heightMm'>
+): BoardSpec => {
+  const extent = latticeExtent({ ...spec, widthMm: 0, heightMm: 0 });
+  return {
+    ...spec,
+    widthMm: extent.width * spec.pegPitchMm + spec.marginMm * 2,
+    heightMm: extent.height * spec.pegPitchMm + spec.marginMm * 2,
+  };
+};
+
+export const BOARD_PRESETS: BoardPreset[] = [
+  {
+    id: 'classic',
+    name: 'Classic Square',
+    description: '30 × 30 · 5 mm',
+    board: DEFAULT_BOARD,
+  },
+  {
+    id: 'square-small',
+    name: 'Small Square',
+    description: '15 × 15 · 5 mm',
+    board: makeBoard({ cols: 15, rows: 15, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5 }),
+  },
+  {
+    id: 'square-large',
+    name: 'Large Square',
+    description: '29 × 29 · 5 mm',
+    board: makeBoard({ cols: 29, rows: 29, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5 }),
+  },
+  {
+    id: 'mini-square',
+    name: 'Mini Square',
+    description: '29 × 29 · 2.6 mm mini beads',
+    board: makeBoard({ cols: 29, rows: 29, pegPitchMm: 2.6, pegDiameterMm: 1.2, pegHeightMm: 2, marginMm: 3 }),
+  },
+  {
+    id: 'maxi-square',
+    name: 'Maxi Square',
+    description: '12 × 12 · 10 mm maxi beads',
+    board: makeBoard({ cols: 12, rows: 12, pegPitchMm: 10, pegDiameterMm: 5, pegHeightMm: 6, marginMm: 10 }),
+  },
+  {
+    id: 'circle',
+    name: 'Circle',
+    description: '19 × 19 · 5 mm',
+    board: makeBoard({ cols: 19, rows: 19, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5, shape: 'circle' }),
+  },
+  {
+    id: 'hexagon',
+    name: 'Hexagon',
+    description: '21 × 21 · 5 mm',
+    board: makeBoard({ cols: 21, rows: 21, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5, shape: 'hexagon' }),
+  },
+  {
+    id: 'hex-lattice',
+    name: 'Hex Pegboard',
+    description: '23 × 26 · 5 mm offset rows',
+    board: makeBoard({ cols: 23, rows: 26, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5, shape: 'hexagon', lattice: 'hex' }),
+  },
+  {
+    id: 'heart',
+    name: 'Heart',
+    description: '17 × 15 · 5 mm',
+    board: makeBoard({ cols: 17, rows: 15, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5, shape: 'heart' }),
+  },
+  {
+    id: 'star',
+    name: 'Star',
+    description: '21 × 21 · 5 mm',
+    board: makeBoard({ cols: 21, rows: 21, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5, shape: 'star' }),
+  },
+  {
+    id: 'toddler',
+    name: 'Toddler Pegboard',
+    description: '10 × 10 · 20 mm chunky pegs',
+    board: makeBoard({ cols: 10, rows: 10, pegPitchMm: 20, pegDiameterMm: 10, pegHeightMm: 25, marginMm: 15 }),
+  },
+];
+
+/**
+ * Moves cells onto a board of different size. 'crop' keeps coordinates and
+ * drops what falls off; 'center' keeps the design centered first.
+ */
+export const remapCells = (
+  cells: Map<CellKey, string>,
+  from: BoardSpec,
+  to: BoardSpec,
+  mode: RemapMode
+): Map<CellKey, string> => {
+  const dx = mode === 'center' ? Math.floor((to.cols - from.cols) / 2) : 0;
+  const dy = mode === 'center' ? Math.floor((to.rows - from.rows) / 2) : 0;
+
+  const next = new Map<CellKey, string>();
+  cells.forEach((colorId, key) => {
+    const { x, y } = parseKey(key);
+    const nx = x + dx;
+    const ny = y + dy;
+    if (!isPegOnBoard(nx, ny, to)) return;
+    next.set(makeKey(nx, ny), colorId);
+  });
+  return next;
+};
+
+export const isSameBoard = (a: BoardSpec, b: BoardSpec) => {
+  // Missing optional fields compare equal to their defaults
+  const left: BoardSpec = { shape: 'rect', lattice: 'square', ...a };
+  const right: BoardSpec = { shape: 'rect', lattice: 'square', ...b };
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]) as Set<keyof BoardSpec>;
+  return Array.from(keys).every(k => JSON.stringify(left[k]) === JSON.stringify(right[k]));
+};
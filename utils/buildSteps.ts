@@ -0,0 +1,98 @@
+import { BoardSpec, CellKey, PaletteColor } from '../types';
+import { getNeighbors, makeKey, parseKey } from './coords';
+
+export type BuildOrder = 'row' | 'color' | 'region';
+
+export const BUILD_ORDERS: Array<{ id: BuildOrder; name: string }> = [
+  { id: 'row', name: 'Row by row' },
+  { id: 'color', name: 'Color by color' },
+  { id: 'region', name: 'Patch by patch' },
+];
+
+export interface BuildStep {
+  title: string; // e.g. "Row 4" or "Red"
+  cells: CellKey[]; // In placing order: left to right, top to bottom
+}
+
+// Reading order: top row first, then left to right
+const byPosition = (a: CellKey, b: CellKey) => {
+  const pa = parseKey(a), pb = parseKey(b);
+  return pa.y - pb.y || pa.x - pb.x;
+};
+
+const colorName = (palette: PaletteColor[], id: string) => palette.find(p => p.id === id)?.name || id;
+
+/**
+ * Splits a design into steps a child can place one at a time.
+ * 'region' groups touching pegs of the same color.
+ */
+export const buildSteps = (
+  cells: Map<CellKey, string>,
+  board: BoardSpec,
+  palette: PaletteColor[],
+  order: BuildOrder
+): BuildStep[] => {
+  const keys = Array.from(cells.keys()).sort(byPosition);
+
+  if (order === 'row') {
+    const rows = new Map<number, CellKey[]>();
+    keys.forEach(key => {
+      const { y } = parseKey(key);
+      rows.set(y, [...(rows.get(y) || []), key]);
+    });
+    return Array.from(rows.entries()).map(([y, rowKeys]) => ({ title: `Row ${y + 1}`, cells: rowKeys }));
+  }
+
+  if (order === 'color') {
+    // Palette order, so steps match the legend
+    const ranks = new Map(palette.map((p, i) => [p.id, i]));
+    const groups = new Map<string, CellKey[]>();
+    keys.forEach(key => {
+      const colorId = cells.get(key)!;
+      groups.set(colorId, [...(groups.get(colorId) || []), key]);
+    });
+    return Array.from(groups.entries())
+      .sort((a, b) => (ranks.get(a[0]) ?? Infinity) - (ranks.get(b[0]) ?? Infinity))
+      .map(([colorId, colorKeys]) => ({ title: colorName(palette, colorId), cells: colorKeys }));
+  }
+
+  // Connected patches, in the reading order of their first peg
+  const visited = new Set<CellKey>();
+  const steps: BuildStep[] = [];
+  keys.forEach(start => {
+    if (visited.has(start)) return;
+    const colorId = cells.get(start)!;
+    const patch: CellKey[] = [];
+    const queue = [start];
+    visited.add(start);
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      patch.push(key);
+      const { x, y } = parseKey(key);
+      getNeighbors(x, y, board).forEach(n => {
+        const nKey = makeKey(n.x, n.y);
+        if (!visited.has(nKey) && cells.get(nKey) === colorId) {
+          visited.add(nKey);
+          queue.push(nKey);
+        }
+      });
+    }
+    steps.push({ title: `${colorName(palette, colorId)} patch`, cells: patch.sort(byPosition) });
+  });
+  return steps;
+};
+
+/**
+ * "3 × Red, 2 × Blue" for a step's pegs, in palette order.
+ */
+export const describeStep = (step: BuildStep, cells: Map<CellKey, string>, palette: PaletteColor[]) => {
+  const counts = new Map<string, number>();
+  step.cells.forEach(key => {
+    const colorId = cells.get(key);
+    if (colorId) counts.set(colorId, (counts.get(colorId) || 0) + 1);
+  });
+  return palette
+    .filter(p => counts.has(p.id))
+    .map(p => `${counts.get(p.id)} × ${p.name}`)
+    .join(', ');
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { BoardSpec, DEFAULT_BOARD } from '../types';
+import { HEX_ROW_STEP, gridToWorld, latticePosition, nearestPeg, worldToGrid } from './coords';
+import { isPegOnBoard } from './boardShape';
+
+const square: BoardSpec = { ...DEFAULT_BOARD, cols: 10, rows: 8 };
+const hex: BoardSpec = { ...square, lattice: 'hex' };
+const circle: BoardSpec = { ...hex, cols: 15, rows: 15, shape: 'circle' };
+
+const allPegs = (board: BoardSpec) => {
+  const pegs: Array<[number, number]> = [];
+  for (let y = 0; y < board.rows; y++) for (let x = 0; x < board.cols; x++) pegs.push([x, y]);
+  return pegs;
+};
+
+describe('nearestPeg', () => {
+  it('rounds to the closest cell on a square lattice', () => {
+    expect(nearestPeg(2.4, 3.6, square)).toEqual({ x: 2, y: 4 });
+  });
+
+  it('finds every hex peg from its own center', () => {
+    allPegs(hex).forEach(([x, y]) => {
+      const { u, v } = latticePosition(x, y, hex);
+      expect(nearestPeg(u, v, hex)).toEqual({ x, y });
+    });
+  });
+
+  it('follows the half-pitch shift of odd hex rows', () => {
+    // Between pegs 2 and 3 of an even row, but on the center of peg 2 of the odd row below
+    expect(nearestPeg(2.5, HEX_ROW_STEP * 0.9, hex)).toEqual({ x: 2, y: 1 });
+    expect(nearestPeg(2.1, HEX_ROW_STEP * 0.1, hex)).toEqual({ x: 2, y: 0 });
+  });
+
+  it('picks the closer of two hex rows', () => {
+    // Just under a third of the way down from row 0 at u = 0 is still row 0
+    expect(nearestPeg(0, HEX_ROW_STEP * 0.3, hex)).toEqual({ x: 0, y: 0 });
+    expect(nearestPeg(0.5, HEX_ROW_STEP * 0.7, hex)).toEqual({ x: 0, y: 1 });
+  });
+});
+
+describe('worldToGrid', () => {
+  it.each([['square', square], ['hex', hex], ['shaped hex', circle]] as const)('inverts gridToWorld on a %s board', (_, board) => {
+    allPegs(board).forEach(([x, y]) => {
+      const [wx, , wz] = gridToWorld(x, y, board);
+      expect(worldToGrid(wx, wz, board)).toEqual({ x, y });
+    });
+  });
+
+  it('snaps points near a peg to that peg', () => {
+    const [wx, , wz] = gridToWorld(4, 3, square);
+    const nudge = (square.pegPitchMm / 10) * 0.4;
+    expect(worldToGrid(wx + nudge, wz - nudge, square)).toEqual({ x: 4, y: 3 });
+  });
+
+  it('returns cells off the board unclamped', () => {
+    const [wx, , wz] = gridToWorld(0, 0, square);
+    const off = worldToGrid(wx - 1, wz, square);
+    expect(off.x).toBeLessThan(0);
+    expect(isPegOnBoard(off.x, off.y, square)).toBe(false);
+  });
+});
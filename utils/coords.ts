@@ -1,5 +1,69 @@
 import { BoardSpec } from '../types';
 
+export const HEX_ROW_STEP = Math.sqrt(3) / 2; // Row spacing of a hex lattice, in pitches
+
+const isHex = (board: BoardSpec) => board.lattice === 'hex';
+
+/**
+ * Peg center in pitch units, with the first peg at (0, 0).
+ * Hex boards shift odd rows right by half a pitch and pack rows closer.
+ */
+export const latticePosition = (col: number, row: number, board: BoardSpec): { u: number; v: number } => {
+  if (!isHex(board)) return { u: col, v: row };
+  const shift = ((row % 2) + 2) % 2 === 1 ? 0.5 : 0;
+  return { u: col + shift, v: row * HEX_ROW_STEP };
+};
+
+/**
+ * Distance between the outermost peg centers, in pitch units.
+ */
+export const latticeExtent = (board: BoardSpec): { width: number; height: number } => {
+  if (!isHex(board)) return { width: board.cols - 1, height: board.rows - 1 };
+  return {
+    width: board.cols - 1 + (board.rows > 1 ? 0.5 : 0),
+    height: (board.rows - 1) * HEX_ROW_STEP,
+  };
+};
+
+/**
+ * Inverse of latticePosition: the cell whose center is closest to (u, v).
+ * Not clamped to the board, so callers can tell when a point is off it.
+ */
+export const nearestPeg = (u: number, v: number, board: BoardSpec): { x: number; y: number } => {
+  if (!isHex(board)) return { x: Math.round(u), y: Math.round(v) };
+
+  // The nearest center is in one of the two rows bracketing v
+  const rowA = Math.floor(v / HEX_ROW_STEP);
+  let best = { x: 0, y: 0 };
+  let bestDist = Infinity;
+  for (const row of [rowA, rowA + 1]) {
+    const shift = ((row % 2) + 2) % 2 === 1 ? 0.5 : 0;
+    const col = Math.round(u - shift);
+    const dist = (u - col - shift) ** 2 + (v - row * HEX_ROW_STEP) ** 2;
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = { x: col, y: row };
+    }
+  }
+  return best;
+};
+
+/**
+ * Cells sharing an edge with (x, y): 4 on a square grid, 6 on a hex lattice.
+ */
+export const getNeighbors = (x: number, y: number, board: BoardSpec): Array<{ x: number; y: number }> => {
+  if (!isHex(board)) {
+    return [{ x: x + 1, y }, { x: x - 1, y }, { x, y: y + 1 }, { x, y: y - 1 }];
+  }
+  // Odd rows sit half a pitch right, so their diagonal neighbors lean right
+  const d = ((y % 2) + 2) % 2 === 1 ? 0 : -1;
+  return [
+    { x: x + 1, y }, { x: x - 1, y },
+    { x: x + d, y: y - 1 }, { x: x + d + 1, y: y - 1 },
+    { x: x + d, y: y + 1 }, { x: x + d + 1, y: y + 1 },
+  ];
+};
+
 /**
  * Converts a grid index (col, row) to 3D world coordinates (x, y, z)
  * centered around (0,0,0).
@@ -11,19 +75,31 @@ export const gridToWorld = (
   yOffset: number = 0
 ): [number, number, number] => {
   // Calculate total usable width/height based on pegs
-  const totalGridWidth = (board.cols - 1) * board.pegPitchMm;
-  const totalGridDepth = (board.rows - 1) * board.pegPitchMm;
+  const extent = latticeExtent(board);
+  const totalGridWidth = extent.width * board.pegPitchMm;
+  const totalGridDepth = extent.height * board.pegPitchMm;
 
   // Center alignment
   const startX = -totalGridWidth / 2;
   const startZ = -totalGridDepth / 2;
 
-  const x = startX + col * board.pegPitchMm;
-  const z = startZ + row * board.pegPitchMm;
+  const { u, v } = latticePosition(col, row, board);
+  const x = startX + u * board.pegPitchMm;
+  const z = startZ + v * board.pegPitchMm;
   
   return [x / 10, yOffset, z / 10]; // Scale down by 10 for Three.js units (1 unit = 1cm approx)
 };
 
+/**
+ * Inverse of gridToWorld on the board plane (nearest cell, unclamped).
+ */
+export const worldToGrid = (worldX: number, worldZ: number, board: BoardSpec): { x: number; y: number } => {
+  const extent = latticeExtent(board);
+  const u = (worldX * 10) / board.pegPitchMm + extent.width / 2;
+  const v = (worldZ * 10) / board.pegPitchMm + extent.height / 2;
+  return nearestPeg(u, v, board);
+};
+
 export const parseKey = (key: string): { x: number; y: number } => {
   const [x, y] = key.split(',').map(Number);
   return { x, y };
@@ -0,0 +1,12 @@
+/**
+ * Saves `blob` through the browser's download prompt.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking right away can cancel the download in Safari
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
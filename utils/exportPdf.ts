@@ -1,113 +1,535 @@
 import jsPDF from 'jspdf';
 import { BoardSpec, Pattern, PaletteColor } from '../types';
-import { parseKey } from './coords';
+import { latticeExtent, latticePosition } from './coords';
+import { boardOutlineMm, isPegOnBoard } from './boardShape';
+import { MosaicTile, isMosaic, mosaicLayout, mosaicTiles, tileSpec } from './mosaic';
+import { BuildOrder, buildSteps, describeStep } from './buildSteps';
+import { BeadNeed, countColors } from './inventory';
+import { colorSymbols, symbolInk } from './beadSymbols';
 
-export const generatePDF = (
-    pattern: Pattern, 
-    board: BoardSpec, 
-    palette: PaletteColor[],
-    type: 'kid' | 'teacher'
-) => {
-    const doc = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4'
-    });
+type SheetType = 'kid' | 'teacher' | 'steps';
 
-    const pageWidth = 210;
-    const margin = 10;
-    const contentWidth = pageWidth - (margin * 2);
+const pageWidth = 210;
+const pageHeight = 297;
+const margin = 10;
+const contentWidth = pageWidth - (margin * 2);
 
-    // Header
+const drawHeader = (doc: jsPDF, pattern: Pattern, subtitle?: string) => {
     doc.setFontSize(18);
+    doc.setTextColor(0);
     doc.text(pattern.metadata.title, margin, 20);
     doc.setFontSize(12);
-    doc.text(`By: ${pattern.metadata.author}`, margin, 28);
-    
+    doc.text(subtitle ? `By: ${pattern.metadata.author} · ${subtitle}` : `By: ${pattern.metadata.author}`, margin, 28);
+
     // Scale warning
     doc.setFontSize(8);
     doc.setTextColor(150);
     doc.text("Ensure 'Scale to Fit' is OFF when printing.", pageWidth - margin - 60, 20);
     doc.line(pageWidth - margin - 30, 25, pageWidth - margin, 25);
     doc.text("3cm Reference", pageWidth - margin - 25, 29);
+};
+
+/**
+ * How beads are printed: a symbol per color so the sheet reads without
+ * color, and optionally black on white for photocopies.
+ */
+interface SheetStyle {
+    symbols: Map<string, string>;
+    grayscale: boolean;
+}
+
+/**
+ * One bead with its color symbol. In grayscale only the outline and the
+ * symbol are printed, so every color copies the same.
+ */
+const drawBead = (doc: jsPDF, color: PaletteColor, style: SheetStyle, cx: number, cy: number, r: number) => {
+    const isWhite = color.hex.toLowerCase() === '#ffffff' || color.id === 'white';
+    if (style.grayscale) {
+        doc.setFillColor(255, 255, 255);
+        doc.setDrawColor(0);
+        doc.setLineWidth(Math.min(0.3, r * 0.12));
+        doc.circle(cx, cy, r, 'FD');
+        doc.setLineWidth(0.2);
+    } else {
+        doc.setFillColor(color.hex);
+        // If white, draw stroke
+        if (isWhite) {
+            doc.setDrawColor(200);
+            doc.circle(cx, cy, r, 'FD');
+        } else {
+            doc.circle(cx, cy, r, 'F');
+        }
+    }
+
+    const symbol = style.symbols.get(color.id);
+    // Font size in points whose capitals fill about half the bead
+    const fontSize = Math.min(11, r * 4.4 / Math.max(1, symbol?.length ?? 1) ** 0.5);
+    if (!symbol || fontSize < 3) return;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(fontSize);
+    doc.setTextColor(style.grayscale ? 0 : symbolInk(color.hex));
+    doc.text(symbol, cx, cy, { align: 'center', baseline: 'middle' });
+    doc.setFont('helvetica', 'normal');
+};
+
+/**
+ * Column numbers above and row numbers left of the grid, counted over the
+ * whole design so mosaic boards carry on where the previous one stopped.
+ */
+const drawRulers = (
+    doc: jsPDF,
+    board: BoardSpec,
+    tile: MosaicTile,
+    single: BoardSpec,
+    pegAt: (x: number, y: number) => [number, number],
+    gridX: number,
+    gridY: number,
+    cellSize: number
+) => {
+    // Every peg when numbers fit side by side, else every fifth
+    const every = cellSize >= 3.5 ? 1 : 5;
+    doc.setFontSize(Math.min(7, Math.max(4, cellSize * 1.5)));
+    doc.setTextColor(100);
+    for (let x = tile.x0; x < tile.x0 + single.cols; x++) {
+        if ((x + 1) % every !== 0 && x !== 0) continue;
+        doc.text(String(x + 1), pegAt(x, tile.y0)[0], gridY - 1, { align: 'center' });
+    }
+    for (let y = tile.y0; y < tile.y0 + single.rows; y++) {
+        if ((y + 1) % every !== 0 && y !== 0) continue;
+        doc.text(String(y + 1), gridX - 1.5, pegAt(tile.x0, y)[1], { align: 'right', baseline: 'middle' });
+    }
+};
+
+// Room left of and above the grid for the rulers
+const RULER_SPACE = 8;
+
+/**
+ * Draws the pegs of one physical board (`tile` of `board`), horizontally
+ * centered from `startY`. Returns the height used.
+ */
+const drawBoard = (
+    doc: jsPDF,
+    pattern: Pattern,
+    board: BoardSpec,
+    palette: PaletteColor[],
+    type: SheetType,
+    style: SheetStyle,
+    tile: MosaicTile,
+    startY: number,
+    maxHeight: number
+) => {
+    const single = tileSpec(board);
+
+    // Auto-scale grid to fit the page
+    const scale = Math.min(1, (contentWidth - RULER_SPACE * 2) / single.widthMm, maxHeight / single.heightMm);
 
-    // Draw Grid
-    const startY = 40;
-    
-    // Auto-scale grid to fit width
-    const maxGridWidthMm = contentWidth;
-    const rawGridWidthMm = board.widthMm;
-    const scale = Math.min(1, maxGridWidthMm / rawGridWidthMm);
-    
     const cellSize = board.pegPitchMm * scale;
-    const startX = (pageWidth - (board.cols * cellSize)) / 2;
+    const extent = latticeExtent(single);
+    const gridWidth = (extent.width + 1) * cellSize;
+    const gridHeight = (extent.height + 1) * cellSize;
+    const startX = (pageWidth - gridWidth) / 2;
+    const origin = latticePosition(tile.x0, tile.y0, board);
+    const pegAt = (x: number, y: number): [number, number] => {
+        const { u, v } = latticePosition(x, y, board);
+        return [startX + (u - origin.u + 0.5) * cellSize, startY + (v - origin.v + 0.5) * cellSize];
+    };
+
+    if (scale < 1) {
+        doc.setFontSize(8);
+        doc.setTextColor(150);
+        doc.text(`Shrunk to ${Math.round(scale * 100)}% to fit. For a sheet to put under the board, export a True-Size Template.`, margin, startY - 6);
+    }
+
+    // Board Outline (shaped boards only)
+    if (single.shape && single.shape !== 'rect') {
+        const midX = startX + gridWidth / 2;
+        const midY = startY + gridHeight / 2;
+        const unit = cellSize / board.pegPitchMm;
+        doc.setDrawColor(180);
+        boardOutlineMm(single).forEach(([mx, my], i) => {
+            if (i === 0) doc.moveTo(midX + mx * unit, midY + my * unit);
+            else doc.lineTo(midX + mx * unit, midY + my * unit);
+        });
+        doc.close();
+        doc.stroke();
+    }
+
+    drawRulers(doc, board, tile, single, pegAt, startX, startY, cellSize);
 
     // Draw Cells
-    for (let x = 0; x < board.cols; x++) {
-        for (let y = 0; y < board.rows; y++) {
-            const posX = startX + (x * cellSize);
-            const posY = startY + (y * cellSize);
-            const cx = posX + cellSize/2;
-            const cy = posY + cellSize/2;
+    const colors = new Map(palette.map(p => [p.id, p]));
+    for (let x = tile.x0; x < tile.x0 + single.cols; x++) {
+        for (let y = tile.y0; y < tile.y0 + single.rows; y++) {
+            if (!isPegOnBoard(x, y, board)) continue;
+            const [cx, cy] = pegAt(x, y);
             const r = (cellSize/2) * 0.8;
 
             // Check if cell is filled
-            const key = `${x},${y}`;
-            const colorId = pattern.cells[key];
-            
-            if (colorId) {
-                const color = palette.find(c => c.id === colorId);
-                if (color) {
-                    doc.setFillColor(color.hex);
-                    // If white, draw stroke
-                    if (color.hex.toLowerCase() === '#ffffff' || color.id === 'white') {
-                        doc.setDrawColor(200);
-                        doc.circle(cx, cy, r, 'FD');
-                    } else {
-                        doc.circle(cx, cy, r, 'F');
-                    }
-                    
-                    // Coordinates for Teacher Mode
-                    if (type === 'teacher') {
-                        doc.setTextColor(255);
-                        doc.setFontSize(scale * 2); 
-                        if (color.hex === '#ffffff') doc.setTextColor(0);
-                        doc.text(`${x},${y}`, cx, cy, { align: 'center', baseline: 'middle' });
-                    }
-                }
+            const colorId = pattern.cells[`${x},${y}`];
+            const color = colorId ? colors.get(colorId) : undefined;
+
+            if (color) {
+                drawBead(doc, color, style, cx, cy, r);
+            } else if (colorId) {
+                // Color no longer in the palette: leave the peg blank
             } else if (type === 'teacher') {
                 // Empty grid dots for teacher
-                doc.setFillColor(230);
+                const dot = style.grayscale ? 200 : 230;
+                doc.setFillColor(dot, dot, dot);
                 doc.circle(cx, cy, 0.5, 'F');
             } else {
                 // Faint outline for kids
-                doc.setDrawColor(240);
+                doc.setDrawColor(style.grayscale ? 200 : 240);
                 doc.circle(cx, cy, r, 'S');
             }
         }
     }
 
-    // Color Legend
-    let legendY = startY + (board.rows * cellSize) + 10;
-    const counts: Record<string, number> = {};
-    Object.values(pattern.cells).forEach(c => counts[c] = (counts[c] || 0) + 1);
+    return gridHeight;
+};
+
+const drawLegend = (
+    doc: jsPDF,
+    cells: string[],
+    palette: PaletteColor[],
+    style: SheetStyle,
+    startY: number,
+    maxX = pageWidth - margin
+) => {
+    let legendY = startY;
+    const counts = countColors(cells);
 
-    doc.setFontSize(10);
-    doc.setTextColor(0);
-    
     let lX = margin;
     palette.forEach(p => {
         if (counts[p.id]) {
-            doc.setFillColor(p.hex);
-            doc.circle(lX + 3, legendY - 1, 3, 'F');
+            drawBead(doc, p, style, lX + 3, legendY - 1, 3);
+            doc.setFontSize(10);
+            doc.setTextColor(0);
             doc.text(`${p.name}: ${counts[p.id]} pcs`, lX + 8, legendY);
             lX += 40;
-            if (lX > pageWidth - margin) {
+            if (lX > maxX) {
                 lX = margin;
                 legendY += 8;
             }
         }
     });
+};
+
+/**
+ * One row's beads left to right as runs, e.g. "3 A · 2 empty · 5 B".
+ * Empty pegs at the end of the row are left out.
+ */
+const rowRuns = (pattern: Pattern, board: BoardSpec, style: SheetStyle, y: number, x0: number, cols: number) => {
+    const runs: Array<{ label: string; count: number }> = [];
+    let beads = 0;
+    for (let x = x0; x < x0 + cols; x++) {
+        if (!isPegOnBoard(x, y, board)) continue;
+        const colorId = pattern.cells[`${x},${y}`];
+        const label = (colorId && style.symbols.get(colorId)) || 'empty';
+        if (label !== 'empty') beads++;
+        const last = runs[runs.length - 1];
+        if (last?.label === label) last.count++;
+        else runs.push({ label, count: 1 });
+    }
+    if (runs[runs.length - 1]?.label === 'empty') runs.pop();
+    return { text: runs.map(run => `${run.count} ${run.label}`).join(' · '), beads };
+};
+
+/**
+ * Row-by-row table for one board: the runs of symbols to place in each row
+ * and how many beads that is. Starts on a new page.
+ */
+const drawRowTable = (
+    doc: jsPDF,
+    pattern: Pattern,
+    board: BoardSpec,
+    style: SheetStyle,
+    tile: MosaicTile,
+    title: string
+) => {
+    const single = tileSpec(board);
+    const textWidth = contentWidth - 30;
+    let y = 0;
+    const newPage = () => {
+        doc.addPage();
+        drawHeader(doc, pattern, title);
+        y = 40;
+        doc.setFontSize(10);
+        doc.setTextColor(0);
+        doc.text('Row', margin, y);
+        doc.text('Beads, left to right', margin + 14, y);
+        doc.text('Total', pageWidth - margin, y, { align: 'right' });
+        doc.setDrawColor(180);
+        doc.line(margin, y + 2, pageWidth - margin, y + 2);
+        y += 8;
+    };
+    newPage();
+
+    for (let row = tile.y0; row < tile.y0 + single.rows; row++) {
+        const { text, beads } = rowRuns(pattern, board, style, row, tile.x0, single.cols);
+        doc.setFontSize(9);
+        const lines: string[] = doc.splitTextToSize(text || '—', textWidth);
+        if (y + lines.length * 4.5 > pageHeight - margin) newPage();
+        doc.setFontSize(9);
+        doc.setTextColor(0);
+        doc.text(String(row + 1), margin, y);
+        doc.setTextColor(text ? 0 : 150);
+        doc.text(lines, margin + 14, y, { lineHeightFactor: 1.4 });
+        doc.setTextColor(0);
+        doc.text(String(beads), pageWidth - margin, y, { align: 'right' });
+        y += lines.length * 4.5 + 1.5;
+        // Faint rule every fifth row, like the board's own markings
+        if ((row + 1) % 5 === 0) {
+            doc.setDrawColor(220);
+            doc.line(margin, y - 3.5, pageWidth - margin, y - 3.5);
+        }
+    }
+};
+
+/**
+ * Small diagram of how the boards join, with `current` highlighted.
+ */
+const drawJoinMap = (doc: jsPDF, board: BoardSpec, x: number, y: number, width: number, current?: MosaicTile) => {
+    const { across, down } = mosaicLayout(board);
+    const single = tileSpec(board);
+    const w = width / across;
+    const h = w * (single.heightMm / single.widthMm);
+
+    doc.setFontSize(Math.min(12, w * 0.8));
+    mosaicTiles(board).forEach(tile => {
+        const isCurrent = current?.label === tile.label;
+        const tx = x + tile.col * w;
+        const ty = y + tile.row * h;
+        doc.setDrawColor(120);
+        doc.setFillColor(isCurrent ? 255 : 245, isCurrent ? 200 : 245, isCurrent ? 80 : 245);
+        doc.rect(tx, ty, w, h, 'FD');
+        doc.setTextColor(isCurrent ? 0 : 120);
+        doc.text(tile.label, tx + w / 2, ty + h / 2, { align: 'center', baseline: 'middle' });
+    });
+    return h * down;
+};
+
+const STEPS_PER_ROW = 2;
+const STEP_ROWS_PER_PAGE = 3;
+
+/**
+ * Instruction pages: one small board per step, earlier steps in gray and
+ * the pegs to place now in color.
+ */
+const drawSteps = (
+    doc: jsPDF,
+    pattern: Pattern,
+    board: BoardSpec,
+    palette: PaletteColor[],
+    style: SheetStyle,
+    order: BuildOrder
+) => {
+    const cells = new Map(Object.entries(pattern.cells));
+    const steps = buildSteps(cells, board, palette, order);
+    const startY = 36;
+    const slotWidth = contentWidth / STEPS_PER_ROW;
+    const slotHeight = (pageHeight - startY - margin) / STEP_ROWS_PER_PAGE;
+    const perPage = STEPS_PER_ROW * STEP_ROWS_PER_PAGE;
+
+    const extent = latticeExtent(board);
+    const boardWidth = (extent.width + 1) * board.pegPitchMm;
+    const boardHeight = (extent.height + 1) * board.pegPitchMm;
+    const scale = Math.min((slotWidth - 6) / boardWidth, (slotHeight - 18) / boardHeight);
+    const cellSize = board.pegPitchMm * scale;
+    const colors = new Map(palette.map(p => [p.id, p]));
+    // Only real pegs are outlined, so shaped and hex boards keep their form
+    const pegs: string[] = [];
+    for (let x = 0; x < board.cols; x++) {
+        for (let y = 0; y < board.rows; y++) {
+            if (isPegOnBoard(x, y, board)) pegs.push(`${x},${y}`);
+        }
+    }
+
+    drawHeader(doc, pattern, `${steps.length} build steps`);
+    const done = new Set<string>();
+    steps.forEach((step, i) => {
+        const slot = i % perPage;
+        if (slot === 0 && i > 0) {
+            doc.addPage();
+            drawHeader(doc, pattern, `Build steps ${i + 1}–${Math.min(i + perPage, steps.length)}`);
+        }
+        const x = margin + (slot % STEPS_PER_ROW) * slotWidth;
+        const y = startY + Math.floor(slot / STEPS_PER_ROW) * slotHeight;
+
+        doc.setFontSize(11);
+        doc.setTextColor(0);
+        doc.text(`Step ${i + 1}: ${step.title}`, x, y + 4);
+        doc.setFontSize(8);
+        doc.setTextColor(100);
+        doc.text(describeStep(step, cells, palette), x, y + 9, { maxWidth: slotWidth - 6 });
+
+        const gridX = x + (slotWidth - 6 - boardWidth * scale) / 2;
+        const gridY = y + 12;
+        const pegAt = (key: string): [number, number] => {
+            const [px, py] = key.split(',').map(Number);
+            const { u, v } = latticePosition(px, py, board);
+            return [gridX + (u + 0.5) * cellSize, gridY + (v + 0.5) * cellSize];
+        };
+        doc.setFillColor(230, 230, 230);
+        pegs.forEach(key => {
+            const [cx, cy] = pegAt(key);
+            doc.circle(cx, cy, Math.min(0.4, cellSize * 0.15), 'F');
+        });
+        doc.setFillColor(215, 215, 215);
+        done.forEach(key => {
+            const [cx, cy] = pegAt(key);
+            doc.circle(cx, cy, cellSize * 0.4, 'F');
+        });
+        step.cells.forEach(key => {
+            const [cx, cy] = pegAt(key);
+            const color = colors.get(cells.get(key)!);
+            if (color) drawBead(doc, color, style, cx, cy, cellSize * 0.45);
+            doc.setDrawColor(60);
+            doc.setLineWidth(0.1);
+            doc.circle(cx, cy, cellSize * 0.45, 'S');
+        });
+        doc.setLineWidth(0.2);
+
+        step.cells.forEach(key => done.add(key));
+    });
+};
+
+export const generatePDF = (
+    pattern: Pattern,
+    board: BoardSpec,
+    palette: PaletteColor[],
+    type: SheetType,
+    order: BuildOrder = 'row',
+    grayscale = false
+) => {
+    const doc = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: 'a4'
+    });
+
+    // Same symbols on every page, even for colors a board doesn't use
+    const style: SheetStyle = { symbols: colorSymbols(palette, Object.values(pattern.cells)), grayscale };
+
+    if (type === 'steps') {
+        drawSteps(doc, pattern, board, palette, style, order);
+        doc.save(`${pattern.metadata.title}_steps.pdf`);
+        return;
+    }
+
+    const startY = 40;
+    const maxHeight = pageHeight - startY - 40; // Leave room for the legend
+
+    if (!isMosaic(board)) {
+        drawHeader(doc, pattern);
+        const [tile] = mosaicTiles(board);
+        const gridHeight = drawBoard(doc, pattern, board, palette, type, style, tile, startY, maxHeight);
+        drawLegend(doc, Object.values(pattern.cells), palette, style, startY + gridHeight + 10);
+        if (type === 'teacher') drawRowTable(doc, pattern, board, style, tile, 'Row by row');
+        doc.save(`${pattern.metadata.title}_${type}.pdf`);
+        return;
+    }
+
+    // Cover page: how the boards join, and beads for the whole mosaic
+    const { across, down } = mosaicLayout(board);
+    const tiles = mosaicTiles(board);
+    drawHeader(doc, pattern, `${across} × ${down} boards`);
+    doc.setFontSize(10);
+    doc.setTextColor(0);
+    doc.text('Join the boards like this, matching the letters and numbers:', margin, startY);
+    const single = tileSpec(board);
+    const mapWidth = Math.min(contentWidth, (maxHeight - 20) * (across * single.widthMm) / (down * single.heightMm));
+    const mapHeight = drawJoinMap(doc, board, (pageWidth - mapWidth) / 2, startY + 6, mapWidth);
+    drawLegend(doc, Object.values(pattern.cells), palette, style, startY + mapHeight + 20);
+
+    // One page per physical board
+    tiles.forEach(tile => {
+        doc.addPage();
+        drawHeader(doc, pattern, `Board ${tile.label} of ${tiles.length}`);
+        const gridHeight = drawBoard(doc, pattern, board, palette, type, style, tile, startY, maxHeight - 25);
+
+        const tileCells: string[] = [];
+        for (let x = tile.x0; x < tile.x0 + single.cols; x++) {
+            for (let y = tile.y0; y < tile.y0 + single.rows; y++) {
+                const colorId = pattern.cells[`${x},${y}`];
+                if (colorId) tileCells.push(colorId);
+            }
+        }
+        // Where this board goes, beside the legend
+        const aspect = (down * single.heightMm) / (across * single.widthMm);
+        const thumbWidth = Math.min(40, 30 / aspect);
+        drawLegend(doc, tileCells, palette, style, startY + gridHeight + 10, pageWidth - margin - thumbWidth - 45);
+        drawJoinMap(doc, board, pageWidth - margin - thumbWidth, pageHeight - margin - thumbWidth * aspect, thumbWidth, tile);
+        if (type === 'teacher') drawRowTable(doc, pattern, board, style, tile, `Board ${tile.label} row by row`);
+    });
 
     doc.save(`${pattern.metadata.title}_${type}.pdf`);
-};
\ No newline at end of file
+};
+
+/**
+ * Bead shopping list for a class plan: which patterns, then per color what's
+ * needed, on hand and still to buy.
+ */
+export const generateShoppingListPDF = (
+    needs: BeadNeed[],
+    plan: Array<{ title: string; copies: number }>,
+    sparePercent: number
+) => {
+    const doc = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: 'a4'
+    });
+
+    doc.setFontSize(18);
+    doc.setTextColor(0);
+    doc.text('Bead Shopping List', margin, 20);
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(new Date().toLocaleDateString(), pageWidth - margin, 20, { align: 'right' });
+
+    let y = 30;
+    doc.setTextColor(0);
+    plan.forEach(item => {
+        doc.text(`${item.copies} × ${item.title}`, margin, y);
+        y += 5;
+    });
+    if (sparePercent > 0) {
+        doc.setTextColor(100);
+        doc.text(`Includes ${sparePercent}% spare beads.`, margin, y);
+        y += 5;
+    }
+
+    const columns = [margin + 8, margin + 90, margin + 120, margin + 150];
+    const drawTableHeader = () => {
+        y += 6;
+        doc.setFontSize(10);
+        doc.setTextColor(0);
+        doc.text('Color', columns[0], y);
+        ['Needed', 'Owned', 'To buy'].forEach((label, i) => doc.text(label, columns[i + 1] + 20, y, { align: 'right' }));
+        doc.setDrawColor(180);
+        doc.line(margin, y + 2, pageWidth - margin, y + 2);
+        y += 8;
+    };
+    drawTableHeader();
+
+    needs.forEach(need => {
+        if (y > pageHeight - margin) {
+            doc.addPage();
+            y = margin + 6;
+            drawTableHeader();
+        }
+        doc.setFillColor(need.color.hex);
+        doc.setDrawColor(180);
+        doc.circle(margin + 3, y - 1.2, 2.5, 'FD');
+        doc.setTextColor(0);
+        doc.text(need.color.name, columns[0], y);
+        doc.text(String(need.needed), columns[1] + 20, y, { align: 'right' });
+        doc.text(String(need.owned), columns[2] + 20, y, { align: 'right' });
+        if (need.short > 0) doc.setTextColor(220, 38, 38);
+        doc.text(need.short > 0 ? String(need.short) : '—', columns[3] + 20, y, { align: 'right' });
+        y += 7;
+    });
+
+    doc.save('bead_shopping_list.pdf');
+};
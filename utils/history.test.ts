@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryEntry, applyChanges, diffCells, mergeChanges, trimHistory } from './history';
+
+const cells = (entries: Record<string, string>) => new Map(Object.entries(entries));
+
+const entries = (count: number): HistoryEntry[] => Array.from({ length: count }, (_, i) => ({
+  id: `e${i}`, action: 'Draw', label: 'Draw 1 peg', timestamp: i, changes: [],
+}));
+
+describe('diffCells / applyChanges', () => {
+  it('undoes and redoes exactly what changed', () => {
+    const before = cells({ '0,0': 'red', '1,0': 'blue', '2,0': 'green' });
+    const after = cells({ '0,0': 'red', '1,0': 'yellow', '3,0': 'pink' });
+    const changes = diffCells(before, after);
+    expect(changes).toHaveLength(3);
+    expect(applyChanges(before, changes, 'forward')).toEqual(after);
+    expect(applyChanges(after, changes, 'backward')).toEqual(before);
+  });
+});
+
+describe('mergeChanges', () => {
+  it('keeps the first before and the last after of each peg', () => {
+    const merged = mergeChanges(
+      [{ key: '0,0', before: undefined, after: 'red' }],
+      [{ key: '0,0', before: 'red', after: 'blue' }, { key: '1,0', before: 'green', after: undefined }]
+    );
+    expect(merged).toEqual([
+      { key: '0,0', before: undefined, after: 'blue' },
+      { key: '1,0', before: 'green', after: undefined },
+    ]);
+  });
+
+  it('drops pegs that end where they started', () => {
+    expect(mergeChanges(
+      [{ key: '0,0', before: 'red', after: 'blue' }],
+      [{ key: '0,0', before: 'blue', after: 'red' }]
+    )).toEqual([]);
+  });
+});
+
+describe('trimHistory', () => {
+  it('leaves a log within the limit alone', () => {
+    const history = entries(3);
+    expect(trimHistory(history, 2, 5)).toEqual({ history, historyPointer: 2 });
+  });
+
+  it('drops the redo branch before any applied step', () => {
+    const { history, historyPointer } = trimHistory(entries(6), 3, 4);
+    expect(history.map(e => e.id)).toEqual(['e0', 'e1', 'e2', 'e3']);
+    expect(historyPointer).toBe(3);
+  });
+
+  it('then drops the oldest steps', () => {
+    const { history, historyPointer } = trimHistory(entries(6), 6, 4);
+    expect(history.map(e => e.id)).toEqual(['e2', 'e3', 'e4', 'e5']);
+    expect(historyPointer).toBe(4);
+  });
+});
@@ -0,0 +1,90 @@
+import { CellKey } from '../types';
+
+/**
+ * One peg's transition. `undefined` means the hole is empty.
+ */
+export interface CellChange {
+  key: CellKey;
+  before: string | undefined;
+  after: string | undefined;
+}
+
+export interface HistoryEntry {
+  id: string;
+  action: string; // Verb shown in the history panel, e.g. "Fill"
+  label: string;  // e.g. "Fill 42 pegs"
+  timestamp: number;
+  changes: CellChange[];
+  layerId?: string; // Layer the changes were made on
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export const formatHistoryLabel = (action: string, changes: CellChange[]) =>
+  `${action} ${changes.length} ${changes.length === 1 ? 'peg' : 'pegs'}`;
+
+/**
+ * Per-cell differences between two cell maps.
+ */
+export const diffCells = (prev: Map<CellKey, string>, next: Map<CellKey, string>): CellChange[] => {
+  const changes: CellChange[] = [];
+  next.forEach((after, key) => {
+    const before = prev.get(key);
+    if (before !== after) changes.push({ key, before, after });
+  });
+  prev.forEach((before, key) => {
+    if (!next.has(key)) changes.push({ key, before, after: undefined });
+  });
+  return changes;
+};
+
+/**
+ * Applies a change list forwards (redo) or backwards (undo) to a copy of `cells`.
+ */
+export const applyChanges = (
+  cells: Map<CellKey, string>,
+  changes: CellChange[],
+  direction: 'forward' | 'backward'
+): Map<CellKey, string> => {
+  const next = new Map(cells);
+  changes.forEach(({ key, before, after }) => {
+    const value = direction === 'forward' ? after : before;
+    if (value) next.set(key, value);
+    else next.delete(key);
+  });
+  return next;
+};
+
+/**
+ * Folds `later` into `earlier` so the pair undoes as one step.
+ * Keeps each key's first `before` and last `after`, dropping no-ops.
+ */
+export const mergeChanges = (earlier: CellChange[], later: CellChange[]): CellChange[] => {
+  const merged = new Map<CellKey, CellChange>();
+  earlier.forEach(c => merged.set(c.key, { ...c }));
+  later.forEach(c => {
+    const existing = merged.get(c.key);
+    if (existing) existing.after = c.after;
+    else merged.set(c.key, { ...c });
+  });
+  return Array.from(merged.values()).filter(c => c.before !== c.after);
+};
+
+/**
+ * Caps the log at `limit` entries: redo branch goes first, then the oldest steps.
+ */
+export const trimHistory = (
+  history: HistoryEntry[],
+  pointer: number,
+  limit: number
+): { history: HistoryEntry[]; historyPointer: number } => {
+  let trimmed = history;
+  let newPointer = pointer;
+  if (trimmed.length > limit) trimmed = trimmed.slice(0, Math.max(newPointer, limit));
+  if (trimmed.length > limit) {
+    const drop = trimmed.length - limit;
+    trimmed = trimmed.slice(drop);
+    newPointer -= drop;
+  }
+  return { history: trimmed, historyPointer: newPointer };
+};
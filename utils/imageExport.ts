@@ -0,0 +1,244 @@
+import { BoardSpec, PaletteColor } from '../types';
+import { BoardScene, buildBoardScene, paintBeads, paintBoardBase, pegCenter } from './boardRender';
+import { Layer, compositeCells } from './layers';
+import { countColors } from './inventory';
+
+export interface ImageExportOptions {
+  grid: boolean; // Grid lines and empty holes
+  legend: boolean; // Bead colors and counts under the board
+  labels: boolean; // Column numbers above, row numbers to the left
+}
+
+const MM_PER_INCH = 25.4;
+const MAX_CANVAS_SIDE = 16384; // Larger canvases fail silently in most browsers
+
+/**
+ * Where the board, labels and legend go on the exported picture.
+ * All sizes scale with the scene's cell size.
+ */
+const layoutExport = (
+  scene: BoardScene,
+  board: BoardSpec,
+  layers: Layer[],
+  palette: PaletteColor[],
+  options: ImageExportOptions
+) => {
+  const { cellSize } = scene;
+  const pad = cellSize;
+  const gutter = options.labels ? cellSize * 1.2 : 0;
+  const originX = pad + gutter;
+  const originY = pad + gutter;
+
+  const colLabels = options.labels
+    ? Array.from({ length: board.cols }, (_, x) => ({ text: String(x + 1), x: originX + pegCenter(board, x, 0, cellSize)[0], y: originY - cellSize * 0.4 }))
+    : [];
+  const rowLabels = options.labels
+    ? Array.from({ length: board.rows }, (_, y) => ({ text: String(y + 1), x: originX - cellSize * 0.4, y: originY + pegCenter(board, 0, y, cellSize)[1] }))
+    : [];
+
+  // Palette order, like the PDF legend
+  const counts = countColors(Array.from(compositeCells(layers).values()));
+  const used = options.legend ? palette.filter(p => counts[p.id]) : [];
+  const itemWidth = cellSize * 7;
+  const itemHeight = cellSize * 1.2;
+  const perRow = Math.max(1, Math.floor((scene.width + gutter) / itemWidth));
+  const legendTop = originY + scene.height + pad;
+  const legend = used.map((color, i) => ({
+    color,
+    text: `${color.name} × ${counts[color.id]}`,
+    x: pad + (i % perRow) * itemWidth,
+    y: legendTop + Math.floor(i / perRow) * itemHeight + itemHeight / 2,
+  }));
+  const legendHeight = used.length > 0 ? Math.ceil(used.length / perRow) * itemHeight + pad / 2 : 0;
+
+  return {
+    width: Math.max(originX + scene.width, pad + Math.min(used.length, perRow) * itemWidth) + pad,
+    height: originY + scene.height + pad + legendHeight,
+    originX,
+    originY,
+    colLabels,
+    rowLabels,
+    legend,
+  };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const circlePath = (cx: number, cy: number, r: number) =>
+  `M${round(cx - r)} ${round(cy)}a${round(r)} ${round(r)} 0 1 0 ${round(r * 2)} 0a${round(r)} ${round(r)} 0 1 0 ${round(-r * 2)} 0Z`;
+
+const segmentsPath = (segments: BoardScene['gridLines']) =>
+  segments.map(([x1, y1, x2, y2]) => `M${round(x1)} ${round(y1)}L${round(x2)} ${round(y2)}`).join('');
+
+/**
+ * Scalable picture of the pattern. Prints at the board's true size: one
+ * pitch of the drawing is `board.pegPitchMm`.
+ */
+export const exportSvg = (
+  board: BoardSpec,
+  layers: Layer[],
+  palette: PaletteColor[],
+  options: ImageExportOptions
+): string => {
+  const scene = buildBoardScene(board, layers, palette);
+  const { cellSize } = scene;
+  const layout = layoutExport(scene, board, layers, palette, options);
+  const mmPerPx = board.pegPitchMm / cellSize;
+  const line = cellSize / 20;
+  const out: string[] = [];
+
+  out.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(layout.width * mmPerPx)}mm" height="${round(layout.height * mmPerPx)}mm" viewBox="0 0 ${round(layout.width)} ${round(layout.height)}" font-family="sans-serif">`,
+    '<defs>',
+    `<filter id="bead-shadow" x="-50%" y="-50%" width="200%" height="200%"><feDropShadow dx="0" dy="${cellSize * 0.1}" stdDeviation="${cellSize * 0.1}" flood-color="#000" flood-opacity="0.2"/></filter>`
+  );
+  const outlinePath = scene.outlines
+    ?.map(outline => outline.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${round(x)} ${round(y)}`).join('') + 'Z')
+    .join('');
+  if (outlinePath) out.push(`<clipPath id="board-shape"><path d="${outlinePath}"/></clipPath>`);
+  out.push('</defs>', `<rect width="100%" height="100%" fill="#ffffff"/>`);
+
+  out.push(`<g transform="translate(${round(layout.originX)} ${round(layout.originY)})">`);
+  out.push(outlinePath
+    ? `<path d="${outlinePath}" fill="#e2e8f0"/>`
+    : `<rect width="${round(scene.width)}" height="${round(scene.height)}" fill="#e2e8f0"/>`);
+  if (options.grid && scene.gridLines.length > 0) {
+    out.push(`<path d="${segmentsPath(scene.gridLines)}" stroke="#cbd5e1" stroke-width="${line}" fill="none"${outlinePath ? ' clip-path="url(#board-shape)"' : ''}/>`);
+  }
+  if (scene.seams.length > 0) {
+    out.push(`<path d="${segmentsPath(scene.seams)}" stroke="#64748b" stroke-width="${line * 2}" fill="none"/>`);
+    scene.tileLabels.forEach(t => out.push(
+      `<text x="${round(t.x)}" y="${round(t.y)}" font-size="${cellSize * 0.6}" font-weight="bold" fill="#64748b">${escapeXml(t.label)}</text>`
+    ));
+  }
+  if (options.grid) {
+    out.push(`<path d="${scene.holes.map(([cx, cy]) => circlePath(cx, cy, cellSize / 4)).join('')}" fill="#94a3b8"/>`);
+  }
+
+  // Same bead as paintBeads: a ring with a highlight
+  const r = cellSize * 0.4;
+  scene.beads.forEach(({ cx, cy, color, opacity }) => {
+    out.push(
+      `<g${opacity < 1 ? ` opacity="${opacity}"` : ''}>`,
+      `<path d="${circlePath(cx, cy, r)}${circlePath(cx, cy, r * 0.4)}" fill="${color}" fill-rule="evenodd" filter="url(#bead-shadow)"/>`,
+      `<circle cx="${round(cx - r * 0.2)}" cy="${round(cy - r * 0.2)}" r="${round(r * 0.3)}" fill="#ffffff" fill-opacity="0.3"/>`,
+      '</g>'
+    );
+  });
+  out.push('</g>');
+
+  const labelSize = cellSize * 0.45;
+  layout.colLabels.forEach(l => out.push(
+    `<text x="${round(l.x)}" y="${round(l.y)}" font-size="${labelSize}" fill="#64748b" text-anchor="middle">${l.text}</text>`
+  ));
+  layout.rowLabels.forEach(l => out.push(
+    `<text x="${round(l.x)}" y="${round(l.y)}" font-size="${labelSize}" fill="#64748b" text-anchor="end" dominant-baseline="central">${l.text}</text>`
+  ));
+  layout.legend.forEach(item => out.push(
+    `<circle cx="${round(item.x + cellSize * 0.4)}" cy="${round(item.y)}" r="${round(cellSize * 0.4)}" fill="${item.color.hex}" stroke="#cbd5e1" stroke-width="${line}"/>`,
+    `<text x="${round(item.x + cellSize)}" y="${round(item.y)}" font-size="${cellSize * 0.6}" fill="#1e293b" dominant-baseline="central">${escapeXml(item.text)}</text>`
+  ));
+
+  out.push('</svg>');
+  return out.join('\n');
+};
+
+// CRC-32 as used by PNG chunks
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  bytes.forEach(b => crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8));
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Adds a pHYs chunk after IHDR so print and layout programs place the
+ * picture at its true size.
+ */
+const withDpi = async (png: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const ihdrEnd = 8 + 4 + 4 + 13 + 4; // Signature, then IHDR's length, type, data and CRC
+  const pxPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(4 + 4 + 9 + 4);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pxPerMeter);
+  view.setUint32(12, pxPerMeter);
+  chunk[16] = 1; // Unit: meters
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  return new Blob([bytes.subarray(0, ihdrEnd), chunk, bytes.subarray(ihdrEnd)], { type: 'image/png' });
+};
+
+/**
+ * PNG of the pattern at `dpi`, drawn with the editor's own painter.
+ * Throws if the picture would be too big for the browser to make.
+ */
+export const exportPng = async (
+  board: BoardSpec,
+  layers: Layer[],
+  palette: PaletteColor[],
+  options: ImageExportOptions,
+  dpi: number
+): Promise<Blob> => {
+  const cellSize = board.pegPitchMm / MM_PER_INCH * dpi;
+  const scene = buildBoardScene(board, layers, palette, cellSize);
+  const layout = layoutExport(scene, board, layers, palette, options);
+  const width = Math.ceil(layout.width);
+  const height = Math.ceil(layout.height);
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE) {
+    throw new Error(`At ${dpi} DPI the picture would be ${width} × ${height} pixels. Choose a lower DPI.`);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create the picture.');
+
+  ctx.save();
+  ctx.translate(layout.originX, layout.originY);
+  paintBoardBase(ctx, scene, cellSize / 20, options.grid);
+  paintBeads(ctx, scene);
+  ctx.restore();
+
+  ctx.fillStyle = '#64748b';
+  ctx.font = `${cellSize * 0.45}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  layout.colLabels.forEach(l => ctx.fillText(l.text, l.x, l.y));
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  layout.rowLabels.forEach(l => ctx.fillText(l.text, l.x, l.y));
+
+  ctx.textAlign = 'left';
+  ctx.font = `${cellSize * 0.6}px sans-serif`;
+  ctx.lineWidth = cellSize / 20;
+  ctx.strokeStyle = '#cbd5e1';
+  layout.legend.forEach(item => {
+    ctx.fillStyle = item.color.hex;
+    ctx.beginPath();
+    ctx.arc(item.x + cellSize * 0.4, item.y, cellSize * 0.4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.fillStyle = '#1e293b';
+    ctx.fillText(item.text, item.x + cellSize, item.y);
+  });
+
+  // White behind everything, including the bead holes
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Could not create the picture.');
+  return withDpi(blob, dpi);
+};
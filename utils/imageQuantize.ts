@@ -0,0 +1,201 @@
+import { BoardSpec, CellKey, PaletteColor } from '../types';
+import { latticePosition, makeKey } from './coords';
+import { isPegOnBoard } from './boardShape';
+
+export type DitherMode = 'none' | 'floyd-steinberg' | 'ordered';
+export type FitMode = 'fill' | 'fit'; // fill = crop to board aspect, fit = letterbox
+
+export interface QuantizeOptions {
+  dither: DitherMode;
+  maxColors: number; // 0 = use the whole palette
+}
+
+type Lab = [number, number, number];
+type Rgb = [number, number, number];
+
+export const hexToRgb = (hex: string): Rgb => {
+  const n = parseInt(hex.replace('#', ''), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+/**
+ * sRGB (0-255) to CIELAB, D65 white point.
+ */
+export const rgbToLab = ([r, g, b]: Rgb): Lab => {
+  const lin = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  };
+  const R = lin(r), G = lin(g), B = lin(b);
+  const x = (R * 0.4124 + G * 0.3576 + B * 0.1805) / 0.95047;
+  const y = (R * 0.2126 + G * 0.7152 + B * 0.0722) / 1.0;
+  const z = (R * 0.0193 + G * 0.1192 + B * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f(x), fy = f(y), fz = f(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+const deltaE = (a: Lab, b: Lab) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+interface Swatch {
+  id: string;
+  rgb: Rgb;
+  lab: Lab;
+}
+
+const nearest = (rgb: Rgb, swatches: Swatch[]): Swatch => {
+  const lab = rgbToLab(rgb);
+  let best = swatches[0];
+  let bestDist = Infinity;
+  for (const s of swatches) {
+    const d = deltaE(lab, s.lab);
+    if (d < bestDist) { bestDist = d; best = s; }
+  }
+  return best;
+};
+
+// 4×4 Bayer matrix, values 0..15
+const BAYER_4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+const ORDERED_STRENGTH = 48; // RGB units the threshold map can shift a pixel
+
+/**
+ * Maps pixels (one per peg, `cols × rows` RGBA) onto palette colors.
+ * Transparent pixels and holes outside the board mask stay empty.
+ */
+const mapPixels = (
+  image: ImageData,
+  board: BoardSpec,
+  swatches: Swatch[],
+  dither: DitherMode
+): Map<CellKey, string> => {
+  const { width, height, data } = image;
+  const cells = new Map<CellKey, string>();
+  // Working copy so error diffusion can accumulate
+  const buf = new Float32Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    buf[i * 3] = data[i * 4];
+    buf[i * 3 + 1] = data[i * 4 + 1];
+    buf[i * 3 + 2] = data[i * 4 + 2];
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (data[i * 4 + 3] < 128 || !isPegOnBoard(x, y, board)) continue;
+
+      let rgb: Rgb = [buf[i * 3], buf[i * 3 + 1], buf[i * 3 + 2]];
+      if (dither === 'ordered') {
+        const t = (BAYER_4[y % 4][x % 4] / 16 - 0.5) * ORDERED_STRENGTH;
+        rgb = [rgb[0] + t, rgb[1] + t, rgb[2] + t];
+      }
+      const clamped = rgb.map(c => Math.max(0, Math.min(255, c))) as Rgb;
+      const match = nearest(clamped, swatches);
+      cells.set(makeKey(x, y), match.id);
+
+      if (dither === 'floyd-steinberg') {
+        const err = [clamped[0] - match.rgb[0], clamped[1] - match.rgb[1], clamped[2] - match.rgb[2]];
+        const spread = (dx: number, dy: number, w: number) => {
+          const nx = x + dx, ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) return;
+          const j = (ny * width + nx) * 3;
+          buf[j] += err[0] * w;
+          buf[j + 1] += err[1] * w;
+          buf[j + 2] += err[2] * w;
+        };
+        spread(1, 0, 7 / 16);
+        spread(-1, 1, 3 / 16);
+        spread(0, 1, 5 / 16);
+        spread(1, 1, 1 / 16);
+      }
+    }
+  }
+  return cells;
+};
+
+/**
+ * Converts a board-sized image into cells using perceptual (CIELAB) matching.
+ * With `maxColors`, a first undithered pass picks the most used colors and
+ * the final pass is restricted to them.
+ */
+export const quantizeImage = (
+  image: ImageData,
+  board: BoardSpec,
+  palette: PaletteColor[],
+  options: QuantizeOptions
+): Map<CellKey, string> => {
+  let swatches: Swatch[] = palette.map(p => {
+    const rgb = hexToRgb(p.hex);
+    return { id: p.id, rgb, lab: rgbToLab(rgb) };
+  });
+  if (swatches.length === 0) return new Map();
+
+  if (options.maxColors > 0 && options.maxColors < swatches.length) {
+    const counts = new Map<string, number>();
+    mapPixels(image, board, swatches, 'none').forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+    const keep = new Set(
+      Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, options.maxColors)
+        .map(([id]) => id)
+    );
+    if (keep.size > 0) swatches = swatches.filter(s => keep.has(s.id));
+  }
+
+  return mapPixels(image, board, swatches, options.dither);
+};
+
+/**
+ * One pixel per peg from a picture drawn over the board's lattice footprint at
+ * `pxPerPitch`: each peg averages the pitch-sized block under its position, so
+ * hex rows sample closer together and odd rows half a pitch over.
+ */
+export const samplePegs = (picture: ImageData, board: BoardSpec, pxPerPitch: number): ImageData => {
+  const pegs = new ImageData(board.cols, board.rows);
+  for (let y = 0; y < board.rows; y++) {
+    for (let x = 0; x < board.cols; x++) {
+      const { u, v } = latticePosition(x, y, board);
+      const left = Math.round(u * pxPerPitch);
+      const top = Math.round(v * pxPerPitch);
+      const right = Math.min(picture.width, left + pxPerPitch);
+      const bottom = Math.min(picture.height, top + pxPerPitch);
+      const sum = [0, 0, 0, 0];
+      let count = 0;
+      for (let py = top; py < bottom; py++) {
+        for (let px = left; px < right; px++) {
+          const i = (py * picture.width + px) * 4;
+          for (let c = 0; c < 4; c++) sum[c] += picture.data[i + c];
+          count++;
+        }
+      }
+      if (count === 0) continue;
+      const o = (y * board.cols + x) * 4;
+      for (let c = 0; c < 4; c++) pegs.data[o + c] = sum[c] / count;
+    }
+  }
+  return pegs;
+};
+
+/**
+ * Source rectangle of an image to draw into a board of the given aspect.
+ * 'fill' crops the longer side; 'fit' uses the whole image.
+ */
+export const cropRect = (
+  imageWidth: number,
+  imageHeight: number,
+  targetAspect: number,
+  mode: FitMode
+): { sx: number; sy: number; sw: number; sh: number } => {
+  if (mode === 'fit') return { sx: 0, sy: 0, sw: imageWidth, sh: imageHeight };
+  const imageAspect = imageWidth / imageHeight;
+  if (imageAspect > targetAspect) {
+    const sw = imageHeight * targetAspect;
+    return { sx: (imageWidth - sw) / 2, sy: 0, sw, sh: imageHeight };
+  }
+  const sh = imageWidth / targetAspect;
+  return { sx: 0, sy: (imageHeight - sh) / 2, sw: imageWidth, sh };
+};
@@ -0,0 +1,74 @@
+import { PaletteColor, Pattern } from '../types';
+
+export type Inventory = Record<string, number>; // colorId → beads on hand
+
+export interface ClassPlanItem {
+  patternId: string;
+  copies: number; // How many children make this pattern
+}
+
+export interface BeadNeed {
+  color: PaletteColor;
+  needed: number;
+  owned: number;
+  short: number; // Beads to buy; 0 when there are enough
+}
+
+/**
+ * Beads per color id for a list of placed beads (one entry per peg).
+ */
+export const countColors = (colorIds: string[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  colorIds.forEach(id => counts[id] = (counts[id] || 0) + 1);
+  return counts;
+};
+
+/**
+ * Totals the beads for `copies` of each pattern against what's on hand.
+ * `sparePercent` adds headroom for beads lost on the floor. Colors come out
+ * in `palette` order, then any only found in the patterns' own palettes.
+ */
+export const planNeeds = (
+  items: Array<{ pattern: Pattern; copies: number }>,
+  palette: PaletteColor[],
+  inventory: Inventory,
+  sparePercent = 0
+): BeadNeed[] => {
+  const colors = new Map(palette.map(p => [p.id, p]));
+  const totals = new Map<string, number>(palette.map(p => [p.id, 0]));
+
+  items.forEach(({ pattern, copies }) => {
+    if (copies <= 0) return;
+    pattern.palette?.forEach(p => { if (!colors.has(p.id)) colors.set(p.id, p); });
+    Object.entries(countColors(Object.values(pattern.cells))).forEach(([id, count]) => {
+      totals.set(id, (totals.get(id) || 0) + count * copies);
+    });
+  });
+
+  return Array.from(totals.entries()).flatMap(([id, count]): BeadNeed[] => {
+    if (count === 0) return [];
+    const needed = Math.ceil(count * (100 + sparePercent) / 100);
+    const owned = inventory[id] || 0;
+    const color = colors.get(id) || { id, name: id, hex: '#000000' };
+    return [{ color, needed, owned, short: Math.max(0, needed - owned) }];
+  });
+};
+
+/**
+ * Colors a single copy of `pattern` would run out of.
+ */
+export const patternShortages = (pattern: Pattern, palette: PaletteColor[], inventory: Inventory) =>
+  planNeeds([{ pattern, copies: 1 }], palette, inventory).filter(n => n.short > 0);
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Spreadsheet-friendly shopping list, one row per color.
+ */
+export const shoppingListCsv = (needs: BeadNeed[]) => {
+  const rows = needs.map(n => [n.color.name, n.color.hex, n.needed, n.owned, n.short].map(csvField).join(','));
+  return ['Color,Hex,Needed,Owned,To buy', ...rows].join('\n');
+};
@@ -0,0 +1,57 @@
+import { CellKey, PatternLayer } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean; // Locked layers ignore drawing, erasing and fills
+  opacity: number; // 0..1, how the editor shows it; beads themselves are opaque
+  cells: Map<CellKey, string>;
+}
+
+export const createLayer = (name: string, cells: Map<CellKey, string> = new Map()): Layer => ({
+  id: uuidv4(),
+  name,
+  visible: true,
+  locked: false,
+  opacity: 1,
+  cells,
+});
+
+/**
+ * The store edits the active layer through its live `cells` map; this swaps
+ * that map in so callers see every layer's current contents.
+ */
+export const resolveLayers = (layers: Layer[], activeLayerId: string, activeCells: Map<CellKey, string>): Layer[] =>
+  layers.map(layer => layer.id === activeLayerId ? { ...layer, cells: activeCells } : layer);
+
+/**
+ * What ends up on the pegboard: each peg takes the top-most visible layer's bead.
+ * `layers` are ordered bottom to top.
+ */
+export const compositeCells = (layers: Layer[]): Map<CellKey, string> => {
+  const result = new Map<CellKey, string>();
+  layers.forEach(layer => {
+    if (layer.visible) layer.cells.forEach((colorId, key) => result.set(key, colorId));
+  });
+  return result;
+};
+
+/**
+ * Color ids of every bead on any layer, hidden ones included.
+ */
+export const usedColorIds = (layers: Layer[]) => {
+  const ids = new Set<string>();
+  layers.forEach(layer => layer.cells.forEach(colorId => ids.add(colorId)));
+  return ids;
+};
+
+/**
+ * Whether any layer holds a bead, hidden ones included.
+ */
+export const hasBeads = (layers: Layer[]) => layers.some(layer => layer.cells.size > 0);
+
+export const layerToRecord = (layer: Layer): PatternLayer => ({ ...layer, cells: Object.fromEntries(layer.cells) });
+
+export const layerFromRecord = (layer: PatternLayer): Layer => ({ ...layer, cells: new Map(Object.entries(layer.cells)) });
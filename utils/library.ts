@@ -0,0 +1,71 @@
+import { Pattern } from '../types';
+
+export interface LibraryEntry {
+  pattern: Pattern;
+  thumbnail: string; // PNG data URL
+  updated: number;
+}
+
+export type DifficultyFilter = Pattern['metadata']['difficulty'] | 'all';
+
+const DB_NAME = 'pegpop-library';
+const DB_VERSION = 1;
+const STORE_NAME = 'patterns';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'pattern.id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open the pattern library.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs one request in its own transaction and resolves with its result.
+ */
+const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = op(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Pattern library request failed.'));
+  });
+};
+
+/**
+ * All saved patterns, most recently changed first.
+ */
+export const listPatterns = async (): Promise<LibraryEntry[]> => {
+  const entries = await run<LibraryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.updated - a.updated);
+};
+
+export const putPattern = async (entry: LibraryEntry): Promise<void> => {
+  await run('readwrite', store => store.put(entry));
+};
+
+export const deletePattern = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+/**
+ * Case-insensitive match on title or author, optionally narrowed by difficulty.
+ */
+export const filterLibrary = (entries: LibraryEntry[], query: string, difficulty: DifficultyFilter) => {
+  const q = query.trim().toLowerCase();
+  return entries.filter(({ pattern: { metadata } }) =>
+    (difficulty === 'all' || metadata.difficulty === difficulty) &&
+    (!q || metadata.title.toLowerCase().includes(q) || metadata.author.toLowerCase().includes(q))
+  );
+};
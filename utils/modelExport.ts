@@ -0,0 +1,168 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { BoardSpec, CellKey, PaletteColor } from '../types';
+import { gridToWorld, parseKey } from './coords';
+import { isPegOnBoard } from './boardShape';
+import { beadHeight, createBeadGeometry, createBoardPlateGeometry, createPegGeometry } from './boardGeometry';
+
+export type ModelFormat = 'stl' | 'obj' | 'glb';
+
+export interface ModelExportOptions {
+  beads: boolean;
+  plate: boolean; // The board itself, following its outline
+  pegs: boolean; // With the plate, a printable pegboard
+  fused: boolean; // Ironed beads: flat and joined, one solid piece
+}
+
+export const MODEL_FORMATS: Array<{ id: ModelFormat; name: string }> = [
+  { id: 'stl', name: 'STL (3D printing)' },
+  { id: 'obj', name: 'OBJ' },
+  { id: 'glb', name: 'glTF binary (.glb)' },
+];
+
+const PLATE_THICKNESS = 0.15; // Same as Scene3D's BoardBase
+const PEG_SINK = 0.02; // Pegs reach into the plate so a print holds together
+const UNITS_TO_MM = 10;
+const UNITS_TO_METERS = 0.01; // glTF is in meters
+
+/**
+ * One mesh made of `geometry` copied to every position. OBJ has no
+ * materials without a .mtl file, so it gets the color per vertex instead.
+ */
+const mergedMesh = (
+  geometry: THREE.BufferGeometry,
+  matrices: THREE.Matrix4[],
+  name: string,
+  hex: string,
+  vertexColors: boolean
+) => {
+  const color = new THREE.Color(hex);
+  const parts = matrices.map(matrix => {
+    const part = geometry.clone().applyMatrix4(matrix);
+    if (vertexColors) {
+      const count = part.getAttribute('position').count;
+      const colors = new Float32Array(count * 3);
+      for (let i = 0; i < count; i++) color.toArray(colors, i * 3);
+      part.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    }
+    return part;
+  });
+  const merged = mergeGeometries(parts);
+  parts.forEach(p => p.dispose());
+  const mesh = new THREE.Mesh(merged, new THREE.MeshStandardMaterial({ color, roughness: 0.3 }));
+  mesh.name = name;
+  return mesh;
+};
+
+/**
+ * The finished piece as Scene3D shows it: beads at their gridToWorld
+ * positions, optionally on the board plate. Beads rest on the plate's top
+ * face rather than hovering, so prints come out as one part.
+ */
+const buildModel = (
+  board: BoardSpec,
+  cells: Map<CellKey, string>,
+  palette: PaletteColor[],
+  options: ModelExportOptions,
+  vertexColors: boolean
+) => {
+  const group = new THREE.Group();
+  const temp = new THREE.Object3D();
+  const matrixAt = (x: number, y: number, lift: number, spin = 0) => {
+    const [px, py, pz] = gridToWorld(x, y, board);
+    temp.position.set(px, py + lift, pz);
+    temp.rotation.set(0, spin, 0);
+    temp.updateMatrix();
+    return temp.matrix.clone();
+  };
+
+  if (options.plate) {
+    const plate = new THREE.Mesh(
+      createBoardPlateGeometry(board, PLATE_THICKNESS, 0.1),
+      new THREE.MeshStandardMaterial({ color: '#f1f5f9', roughness: 0.1 })
+    );
+    plate.name = 'Board';
+    if (vertexColors) {
+      const count = plate.geometry.getAttribute('position').count;
+      const colors = new Float32Array(count * 3).fill(0.95);
+      plate.geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    }
+    group.add(plate);
+
+    if (options.pegs) {
+      const holes: THREE.Matrix4[] = [];
+      for (let x = 0; x < board.cols; x++) {
+        for (let y = 0; y < board.rows; y++) {
+          if (isPegOnBoard(x, y, board)) holes.push(matrixAt(x, y, -PEG_SINK));
+        }
+      }
+      const pegGeom = createPegGeometry(board);
+      if (holes.length > 0) group.add(mergedMesh(pegGeom, holes, 'Pegs', '#94a3b8', vertexColors));
+      pegGeom.dispose();
+    }
+  }
+
+  if (options.beads) {
+    const beadGeom = createBeadGeometry(options.fused, board.pegPitchMm);
+    const byColor = new Map<string, THREE.Matrix4[]>();
+    cells.forEach((colorId, key) => {
+      const { x, y } = parseKey(key);
+      // Same subtle rotation as the 3D view
+      const matrix = matrixAt(x, y, beadHeight(options.fused, board.pegPitchMm) / 2, x * 0.5 + y * 0.5);
+      const matrices = byColor.get(colorId);
+      if (matrices) matrices.push(matrix);
+      else byColor.set(colorId, [matrix]);
+    });
+    // Palette order, one mesh per color
+    palette.forEach(color => {
+      const matrices = byColor.get(color.id);
+      if (matrices) group.add(mergedMesh(beadGeom, matrices, color.name, color.hex, vertexColors));
+    });
+    beadGeom.dispose();
+  }
+
+  return group;
+};
+
+const disposeModel = (group: THREE.Group) => {
+  group.traverse(object => {
+    if (object instanceof THREE.Mesh) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+  });
+};
+
+/**
+ * The piece as a downloadable file. STL and OBJ are in millimeters, GLB in meters.
+ * Throws if there is nothing to export.
+ */
+export const exportModel = async (
+  board: BoardSpec,
+  cells: Map<CellKey, string>,
+  palette: PaletteColor[],
+  options: ModelExportOptions,
+  format: ModelFormat
+): Promise<Blob> => {
+  const group = buildModel(board, cells, palette, options, format === 'obj');
+  if (group.children.length === 0) throw new Error('Nothing to export. Add beads or include the board.');
+
+  try {
+    group.scale.setScalar(format === 'glb' ? UNITS_TO_METERS : UNITS_TO_MM);
+    group.updateMatrixWorld(true);
+
+    if (format === 'stl') {
+      return new Blob([new STLExporter().parse(group, { binary: true })], { type: 'model/stl' });
+    }
+    if (format === 'obj') {
+      return new Blob([new OBJExporter().parse(group)], { type: 'model/obj' });
+    }
+    const glb = await new GLTFExporter().parseAsync(group, { binary: true });
+    return new Blob([glb as ArrayBuffer], { type: 'model/gltf-binary' });
+  } finally {
+    disposeModel(group);
+  }
+};
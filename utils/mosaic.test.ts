@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { BoardSpec, DEFAULT_BOARD } from '../types';
+import { makeBoard } from './boards';
+import { boardOutlinesMm, isPegOnBoard } from './boardShape';
+import { gridToWorld } from './coords';
+import { makeMosaic, mosaicTiles, tileSpec } from './mosaic';
+
+const xs = (outline: Array<[number, number]>) => outline.map(p => p[0]);
+const ys = (outline: Array<[number, number]>) => outline.map(p => p[1]);
+
+const inside = ([px, py]: [number, number], points: Array<[number, number]>) => {
+  let result = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) result = !result;
+  }
+  return result;
+};
+
+const pegCount = (board: BoardSpec, x0 = 0, y0 = 0, cols = board.cols, rows = board.rows) => {
+  let count = 0;
+  for (let y = y0; y < y0 + rows; y++) for (let x = x0; x < x0 + cols; x++) if (isPegOnBoard(x, y, board)) count++;
+  return count;
+};
+
+describe('mosaics', () => {
+  it('places joined boards edge to edge', () => {
+    const board = makeMosaic(DEFAULT_BOARD, { across: 2, down: 1 });
+    const [left, right] = boardOutlinesMm(board);
+    expect(Math.max(...xs(left))).toBeCloseTo(Math.min(...xs(right)));
+    expect(Math.max(...xs(right)) - Math.min(...xs(left))).toBeCloseTo(board.widthMm);
+  });
+
+  it('stacks joined hex boards edge to edge', () => {
+    const tile = makeBoard({ cols: 10, rows: 6, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5, lattice: 'hex' });
+    const [top, bottom] = boardOutlinesMm(makeMosaic(tile, { across: 1, down: 2 }));
+    expect(Math.max(...ys(top))).toBeCloseTo(Math.min(...ys(bottom)));
+  });
+
+  it('keeps the peg pitch across a seam', () => {
+    const board = makeMosaic(DEFAULT_BOARD, { across: 2, down: 1 });
+    const [ax] = gridToWorld(DEFAULT_BOARD.cols - 1, 0, board);
+    const [bx] = gridToWorld(DEFAULT_BOARD.cols, 0, board);
+    expect((bx - ax) * 10).toBeCloseTo(DEFAULT_BOARD.pegPitchMm);
+  });
+
+  it('puts every seam peg inside its own board', () => {
+    const board = makeMosaic(DEFAULT_BOARD, { across: 2, down: 1 });
+    const single = tileSpec(board);
+    const outlines = boardOutlinesMm(board);
+    mosaicTiles(board).forEach((tile, i) => {
+      [tile.x0, tile.x0 + single.cols - 1].forEach(x => {
+        const [wx] = gridToWorld(x, 0, board);
+        expect(wx * 10).toBeGreaterThan(Math.min(...xs(outlines[i])));
+        expect(wx * 10).toBeLessThan(Math.max(...xs(outlines[i])));
+      });
+    });
+  });
+
+  it('masks every shaped hex board alike, even with an odd number of rows', () => {
+    const tile = makeBoard({ cols: 11, rows: 11, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5, lattice: 'hex', shape: 'circle' });
+    const board = makeMosaic(tile, { across: 1, down: 2 });
+    const first = pegCount(board, 0, 0, 11, 11);
+    expect(first).toBeGreaterThan(0);
+    expect(first).toBeLessThan(121);
+    expect(pegCount(board, 0, 11, 11, 11)).toBe(first);
+  });
+
+  it('keeps every masked hex peg inside its board outline', () => {
+    const tile = makeBoard({ cols: 11, rows: 11, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5, lattice: 'hex', shape: 'hexagon' });
+    const board = makeMosaic(tile, { across: 2, down: 2 });
+    const outlines = boardOutlinesMm(board);
+    mosaicTiles(board).forEach((t, i) => {
+      for (let y = t.y0; y < t.y0 + 11; y++) {
+        for (let x = t.x0; x < t.x0 + 11; x++) {
+          if (!isPegOnBoard(x, y, board)) continue;
+          const [wx, , wz] = gridToWorld(x, y, board);
+          expect(inside([wx * 10, wz * 10], outlines[i])).toBe(true);
+        }
+      }
+    });
+  });
+
+  it('masks a plain shaped board as before', () => {
+    const tile = makeBoard({ cols: 15, rows: 15, pegPitchMm: 5, pegDiameterMm: 2.5, pegHeightMm: 3, marginMm: 5, shape: 'circle' });
+    const board = makeMosaic(tile, { across: 2, down: 2 });
+    const single = pegCount(tile);
+    mosaicTiles(board).forEach(t => expect(pegCount(board, t.x0, t.y0, 15, 15)).toBe(single));
+  });
+});
@@ -0,0 +1,90 @@
+import { BoardSpec, MosaicLayout } from '../types';
+import { HEX_ROW_STEP, latticeExtent, latticePosition } from './coords';
+
+export interface MosaicTile {
+  col: number; // Board column within the mosaic
+  row: number; // Board row within the mosaic
+  label: string; // "A1" = top row, first board
+  x0: number; // First peg column of this board in the whole grid
+  y0: number; // First peg row of this board in the whole grid
+}
+
+export const mosaicLayout = (board: BoardSpec): MosaicLayout => board.mosaic ?? { across: 1, down: 1 };
+
+export const isMosaic = (board: BoardSpec) => {
+  const { across, down } = mosaicLayout(board);
+  return across * down > 1;
+};
+
+export const tileLabel = (col: number, row: number) => `${String.fromCharCode(65 + row)}${col + 1}`;
+
+/**
+ * Size of a board that is part of a mosaic. The pitch carries on across the
+ * seams, so each board is exactly one repeat of the lattice: half a pitch of
+ * margin around square pegs, less on hex boards whose rows interlock.
+ */
+const joinedBoard = (tile: BoardSpec): BoardSpec => {
+  const rowStep = tile.lattice === 'hex' ? HEX_ROW_STEP : 1;
+  return {
+    ...tile,
+    widthMm: tile.cols * tile.pegPitchMm,
+    heightMm: tile.rows * rowStep * tile.pegPitchMm,
+    marginMm: tile.pegPitchMm / 2,
+  };
+};
+
+/**
+ * One physical board of the mosaic (the board itself when it isn't one).
+ */
+export const tileSpec = (board: BoardSpec): BoardSpec => {
+  const { mosaic, ...single } = board;
+  if (!mosaic) return single;
+  return joinedBoard({ ...single, cols: board.cols / mosaic.across, rows: board.rows / mosaic.down });
+};
+
+/**
+ * Joins `across × down` copies of a board into one design grid. The boards'
+ * margins give way to the joined size, so the outlines meet at the seams.
+ */
+export const makeMosaic = (tile: BoardSpec, layout: MosaicLayout): BoardSpec => {
+  const { mosaic, ...single } = tile;
+  if (layout.across * layout.down <= 1) return single;
+  const joined = joinedBoard(single);
+  return {
+    ...joined,
+    cols: single.cols * layout.across,
+    rows: single.rows * layout.down,
+    widthMm: joined.widthMm * layout.across,
+    heightMm: joined.heightMm * layout.down,
+    mosaic: { across: layout.across, down: layout.down },
+  };
+};
+
+/**
+ * Boards of the mosaic in reading order (a single tile for plain boards).
+ */
+export const mosaicTiles = (board: BoardSpec): MosaicTile[] => {
+  const { across, down } = mosaicLayout(board);
+  const tile = tileSpec(board);
+  const tiles: MosaicTile[] = [];
+  for (let row = 0; row < down; row++) {
+    for (let col = 0; col < across; col++) {
+      tiles.push({ col, row, label: tileLabel(col, row), x0: col * tile.cols, y0: row * tile.rows });
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Center of a tile's pegs relative to the whole grid's center, in pitch units.
+ */
+export const tileCenter = (board: BoardSpec, tile: Pick<MosaicTile, 'x0' | 'y0'>): { u: number; v: number } => {
+  const whole = latticeExtent(board);
+  const single = latticeExtent(tileSpec(board));
+  // Left edge of an unshifted row, even when the tile starts on a shifted one
+  const origin = { u: latticePosition(tile.x0, 0, board).u, v: latticePosition(0, tile.y0, board).v };
+  return {
+    u: origin.u + single.width / 2 - whole.width / 2,
+    v: origin.v + single.height / 2 - whole.height / 2,
+  };
+};
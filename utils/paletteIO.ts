@@ -0,0 +1,109 @@
+import { PaletteColor } from '../types';
+
+export interface ParsedPalette {
+  name: string;
+  colors: PaletteColor[];
+}
+
+const HEX_RE = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i;
+
+export const normalizeHex = (value: string): string | null => {
+  const match = value.trim().match(HEX_RE);
+  if (!match) return null;
+  let hex = match[1].toLowerCase();
+  if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+  return `#${hex}`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(c => Math.max(0, Math.min(255, Math.round(c))).toString(16).padStart(2, '0')).join('');
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'color';
+
+/**
+ * Derives an id from the color name that doesn't clash with `taken`.
+ */
+export const uniqueColorId = (name: string, taken: Set<string>): string => {
+  const base = slugify(name);
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+};
+
+/**
+ * GIMP/Inkscape palette: "GIMP Palette" header, optional "Name:" line,
+ * then "R G B  Color name" rows. Comments start with '#'.
+ */
+const parseGpl = (text: string, fallbackName: string): ParsedPalette => {
+  const lines = text.split(/\r?\n/);
+  if (!lines[0]?.trim().startsWith('GIMP Palette')) throw new Error('Not a GIMP palette file.');
+
+  let name = fallbackName;
+  const taken = new Set<string>();
+  const colors: PaletteColor[] = [];
+
+  lines.slice(1).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    if (line.startsWith('Name:')) { name = line.slice(5).trim() || name; return; }
+    if (line.startsWith('Columns:')) return;
+
+    const match = line.match(/^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/);
+    if (!match) throw new Error(`Line ${i + 2}: expected "R G B name".`);
+    const [, r, g, b, label] = match;
+    const colorName = label.trim() || `Color ${colors.length + 1}`;
+    colors.push({ id: uniqueColorId(colorName, taken), name: colorName, hex: toHex(+r, +g, +b) });
+  });
+
+  return { name, colors };
+};
+
+/**
+ * JSON palette: either an array of colors or `{ name, colors: [...] }`.
+ * Each color needs a hex value; `name` and `id` are optional.
+ */
+const parseJson = (text: string, fallbackName: string): ParsedPalette => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  const list: unknown = Array.isArray(data) ? data : isObject(data) ? data.colors : undefined;
+  if (!Array.isArray(list)) throw new Error('Expected a list of colors.');
+
+  const taken = new Set<string>();
+  const colors = list.map((entry: unknown, i: number): PaletteColor => {
+    const fields = isObject(entry) ? entry : {};
+    const hex = typeof fields.hex === 'string' ? normalizeHex(fields.hex) : null;
+    if (!hex) throw new Error(`Color ${i + 1}: missing or invalid "hex".`);
+    const name = typeof fields.name === 'string' && fields.name.trim() ? fields.name.trim() : `Color ${i + 1}`;
+    // Keep the file's ids so patterns referring to them still match
+    if (typeof fields.id === 'string' && fields.id && !taken.has(fields.id)) {
+      taken.add(fields.id);
+      return { id: fields.id, name, hex };
+    }
+    return { id: uniqueColorId(name, taken), name, hex };
+  });
+
+  const name = isObject(data) && typeof data.name === 'string' && data.name ? data.name : fallbackName;
+  return { name, colors };
+};
+
+/**
+ * Reads a bead-brand color library from a .json or .gpl file's text.
+ */
+export const parsePaletteFile = (text: string, fileName: string): ParsedPalette => {
+  const fallbackName = fileName.replace(/\.[^.]+$/, '') || 'Imported';
+  const result = text.trimStart().startsWith('GIMP Palette')
+    ? parseGpl(text, fallbackName)
+    : parseJson(text, fallbackName);
+  if (result.colors.length === 0) throw new Error('The palette has no colors.');
+  return result;
+};
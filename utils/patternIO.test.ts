@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BOARD, DEFAULT_PALETTE, MAX_BOARD_PEGS, PATTERN_VERSION, Pattern } from '../types';
+import { parsePatternData, parsePatternFile } from './patternIO';
+
+const metadata = { title: 'Heart', author: 'Sam', difficulty: 'Medium' as const, created: 1700000000000 };
+
+describe('parsePatternFile', () => {
+  it('reads back a current file unchanged', () => {
+    const layers = [
+      { id: 'a', name: 'Back', visible: true, locked: false, opacity: 1, cells: { '0,0': 'red', '1,0': 'blue' } },
+      { id: 'b', name: 'Front', visible: true, locked: true, opacity: 0.5, cells: { '1,0': 'green' } },
+    ];
+    const pattern: Pattern = {
+      version: PATTERN_VERSION,
+      id: 'p1',
+      metadata,
+      cells: { '0,0': 'red', '1,0': 'green' },
+      board: DEFAULT_BOARD,
+      palette: DEFAULT_PALETTE,
+      layers,
+    };
+    expect(parsePatternFile(JSON.stringify(pattern))).toEqual(pattern);
+  });
+
+  it('migrates a version 1 file through to the current format', () => {
+    const parsed = parsePatternData({ id: 'old', metadata, cells: { '2,3': 'red' } });
+    expect(parsed.version).toBe(PATTERN_VERSION);
+    expect(parsed.board).toEqual(DEFAULT_BOARD);
+    expect(parsed.palette).toEqual(DEFAULT_PALETTE);
+    expect(parsed.layers).toHaveLength(1);
+    expect(parsed.layers![0]).toMatchObject({ name: 'Layer 1', visible: true, cells: { '2,3': 'red' } });
+    expect(parsed.cells).toEqual({ '2,3': 'red' });
+  });
+
+  it('migrates a version 2 file into a single layer', () => {
+    const parsed = parsePatternData({
+      version: 2, id: 'v2', metadata, cells: { '0,1': 'blue' }, board: DEFAULT_BOARD, palette: DEFAULT_PALETTE,
+    });
+    expect(parsed.layers!.map(l => l.cells)).toEqual([{ '0,1': 'blue' }]);
+  });
+
+  it('leaves hidden layers out of the flattened cells', () => {
+    const parsed = parsePatternData({
+      version: 3, id: 'h', metadata, board: DEFAULT_BOARD, palette: DEFAULT_PALETTE,
+      layers: [
+        { name: 'Shown', cells: { '0,0': 'red' } },
+        { name: 'Hidden', visible: false, cells: { '0,0': 'blue', '1,1': 'blue' } },
+      ],
+    });
+    expect(parsed.cells).toEqual({ '0,0': 'red' });
+  });
+
+  it('fills in missing metadata', () => {
+    const parsed = parsePatternData({ id: 'm', cells: {} });
+    expect(parsed.metadata).toMatchObject({ title: 'Untitled', author: '', difficulty: 'Easy' });
+  });
+
+  it('rejects files from a newer version', () => {
+    expect(() => parsePatternData({ version: PATTERN_VERSION + 1, cells: {} })).toThrow(/newer version/);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parsePatternFile('{ nope')).toThrow('File is not valid JSON.');
+  });
+
+  it('lists every problem it finds', () => {
+    const run = () => parsePatternData({
+      id: 'bad',
+      metadata: { difficulty: 'Impossible' },
+      board: { ...DEFAULT_BOARD, cols: 2.5, lattice: 'triangle' },
+      palette: [{ id: 'red', hex: 'not a color' }],
+      cells: {},
+    });
+    expect(run).toThrow(/"metadata.difficulty" must be one of Easy, Medium, Hard/);
+    expect(run).toThrow(/Board "cols" and "rows" must be whole numbers/);
+    expect(run).toThrow(/Unknown peg layout "triangle"/);
+    expect(run).toThrow(/Palette color "red" has an invalid "hex"/);
+  });
+
+  it('rejects cells off the board or with unknown colors', () => {
+    const run = () => parsePatternData({
+      id: 'c', metadata, board: { ...DEFAULT_BOARD, cols: 4, rows: 4 }, palette: DEFAULT_PALETTE,
+      cells: { '9,9': 'red', '1,1': 'mauve', 'x': 'red' },
+    });
+    expect(run).toThrow(/cell 9,9 is outside the 4 × 4 board/);
+    expect(run).toThrow(/cell 1,1 uses unknown color id "mauve"/);
+    expect(run).toThrow(/cell key "x" is not in "x,y" form/);
+  });
+
+  it('rejects cell keys with leading zeros', () => {
+    // "01,2" would otherwise sit beside "1,2" as a second bead on the same peg
+    expect(() => parsePatternData({
+      id: 'z', metadata, board: DEFAULT_BOARD, palette: DEFAULT_PALETTE, cells: { '1,2': 'red', '01,2': 'blue' },
+    })).toThrow(/cell key "01,2" is not in "x,y" form/);
+  });
+
+  it('rejects layers that share an id', () => {
+    const layer = { id: 'same', name: 'A', visible: true, locked: false, opacity: 1, cells: {} };
+    expect(() => parsePatternData({
+      version: PATTERN_VERSION, id: 'd', metadata, board: DEFAULT_BOARD, palette: DEFAULT_PALETTE,
+      layers: [layer, { ...layer, name: 'B' }],
+    })).toThrow(/Layer id "same" is used twice/);
+  });
+
+  it('rejects boards with too many pegs along a side', () => {
+    expect(() => parsePatternData({
+      id: 'big', metadata, board: { ...DEFAULT_BOARD, cols: MAX_BOARD_PEGS + 1 }, palette: DEFAULT_PALETTE, cells: {},
+    })).toThrow(`can be at most ${MAX_BOARD_PEGS}`);
+  });
+
+  it('rejects a mosaic that does not divide the board', () => {
+    expect(() => parsePatternData({
+      id: 'm', metadata, board: { ...DEFAULT_BOARD, cols: 30, rows: 30, mosaic: { across: 4, down: 1 } },
+      palette: DEFAULT_PALETTE, cells: {},
+    })).toThrow(/must split the pegs into whole boards/);
+  });
+});
@@ -0,0 +1,223 @@
+import {
+  BoardLattice, BoardSpec, CellKey, DEFAULT_BOARD, DEFAULT_PALETTE, MAX_BOARD_PEGS, PATTERN_VERSION, PaletteColor, Pattern, PatternLayer
+} from '../types';
+import { BOARD_SHAPES, isPegOnBoard } from './boardShape';
+import { normalizeHex } from './paletteIO';
+import { v4 as uuidv4 } from 'uuid';
+
+type Difficulty = Pattern['metadata']['difficulty'];
+type RawData = Record<string, unknown>;
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+const LATTICES: BoardLattice[] = ['square', 'hex'];
+// No leading zeros, so every peg has exactly one key
+const CELL_KEY_RE = /^(0|[1-9]\d*),(0|[1-9]\d*)$/;
+const MAX_LISTED_ISSUES = 8;
+
+/**
+ * Upgrades a raw file of version `from` to `from + 1`.
+ * Version 1 files predate saved boards and palettes; version 2 predates layers.
+ */
+const MIGRATIONS: Record<number, (data: RawData) => RawData> = {
+  1: (data) => ({
+    ...data,
+    board: data.board ?? DEFAULT_BOARD,
+    palette: data.palette ?? DEFAULT_PALETTE,
+  }),
+  2: (data) => ({
+    ...data,
+    layers: [{ id: uuidv4(), name: 'Layer 1', visible: true, locked: false, opacity: 1, cells: data.cells }],
+  }),
+};
+
+const isObject = (value: unknown): value is RawData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isWhole = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+const isDifficulty = (value: unknown): value is Difficulty => DIFFICULTIES.some(d => d === value);
+
+const isLattice = (value: unknown): value is BoardLattice => LATTICES.some(l => l === value);
+
+const migrate = (data: RawData): RawData => {
+  const version = data.version ?? 1;
+  if (!isWhole(version) || version < 1) throw new Error(`Unknown file version "${data.version}".`);
+  if (version > PATTERN_VERSION) {
+    throw new Error(`This file was made with a newer version of PegPop (format ${version}). Please update to open it.`);
+  }
+  let current = data;
+  for (let v = version; v < PATTERN_VERSION; v++) current = { ...MIGRATIONS[v](current), version: v + 1 };
+  return current;
+};
+
+const checkBoard = (board: unknown, issues: string[]): BoardSpec | null => {
+  if (!isObject(board)) {
+    issues.push('"board" must be an object.');
+    return null;
+  }
+  const positive: Array<keyof BoardSpec> = ['widthMm', 'heightMm', 'cols', 'rows', 'pegPitchMm', 'pegDiameterMm', 'pegHeightMm'];
+  positive.forEach(key => {
+    if (!isPositive(board[key])) issues.push(`Board "${key}" must be a positive number.`);
+  });
+  const { cols, rows, marginMm, shape, lattice, mosaic } = board;
+  if (typeof marginMm !== 'number' || marginMm < 0) issues.push('Board "marginMm" must be zero or more.');
+  if (!isWhole(cols) || !isWhole(rows)) issues.push('Board "cols" and "rows" must be whole numbers.');
+  if ((isPositive(cols) && cols > MAX_BOARD_PEGS) || (isPositive(rows) && rows > MAX_BOARD_PEGS)) {
+    issues.push(`Board "cols" and "rows" can be at most ${MAX_BOARD_PEGS}.`);
+  }
+  if (shape !== undefined && !BOARD_SHAPES.some(s => s.id === shape)) issues.push(`Unknown board shape "${shape}".`);
+  if (lattice !== undefined && !isLattice(lattice)) issues.push(`Unknown peg layout "${lattice}".`);
+  if (mosaic !== undefined) {
+    const { across, down } = isObject(mosaic) ? mosaic : {};
+    if (!isWhole(across) || !isWhole(down) || across < 1 || down < 1
+      || !isWhole(cols) || !isWhole(rows) || cols % across !== 0 || rows % down !== 0) {
+      issues.push('Board "mosaic" must split the pegs into whole boards.');
+    }
+  }
+  // Every field was checked above; any issue stops the load before this is used
+  return board as unknown as BoardSpec;
+};
+
+const checkPalette = (palette: unknown, issues: string[]): PaletteColor[] => {
+  if (!Array.isArray(palette) || palette.length === 0) {
+    issues.push('"palette" must be a non-empty list of colors.');
+    return [];
+  }
+  const seen = new Set<string>();
+  return palette.flatMap((color: unknown, i: number): PaletteColor[] => {
+    if (!isObject(color) || typeof color.id !== 'string' || !color.id) {
+      issues.push(`Palette color ${i + 1} has no "id".`);
+      return [];
+    }
+    const { id, name, roughness, metalness } = color;
+    const hex = typeof color.hex === 'string' ? normalizeHex(color.hex) : null;
+    if (seen.has(id)) issues.push(`Palette color id "${id}" is used twice.`);
+    if (!hex) issues.push(`Palette color "${id}" has an invalid "hex".`);
+    seen.add(id);
+    return [{
+      id,
+      name: typeof name === 'string' ? name : id,
+      hex: hex || '#000000',
+      ...(typeof roughness === 'number' ? { roughness } : {}),
+      ...(typeof metalness === 'number' ? { metalness } : {}),
+    }];
+  });
+};
+
+const checkMetadata = (metadata: unknown, issues: string[]): Pattern['metadata'] => {
+  // Missing fields get defaults; present fields must have the right type
+  const { title, author, difficulty, created } = isObject(metadata) ? metadata : {};
+  if (metadata !== undefined && !isObject(metadata)) issues.push('"metadata" must be an object.');
+  if (title !== undefined && typeof title !== 'string') issues.push('"metadata.title" must be text.');
+  if (author !== undefined && typeof author !== 'string') issues.push('"metadata.author" must be text.');
+  if (difficulty !== undefined && !isDifficulty(difficulty)) {
+    issues.push(`"metadata.difficulty" must be one of ${DIFFICULTIES.join(', ')}.`);
+  }
+  if (created !== undefined && typeof created !== 'number') issues.push('"metadata.created" must be a timestamp.');
+  return {
+    title: typeof title === 'string' ? title : 'Untitled',
+    author: typeof author === 'string' ? author : '',
+    difficulty: isDifficulty(difficulty) ? difficulty : 'Easy',
+    created: typeof created === 'number' ? created : Date.now(),
+  };
+};
+
+const checkLayers = (layers: unknown, issues: string[]): PatternLayer[] => {
+  if (!Array.isArray(layers) || layers.length === 0) {
+    issues.push('"layers" must be a non-empty list.');
+    return [];
+  }
+  const seen = new Set<string>();
+  return layers.flatMap((layer: unknown, i: number): PatternLayer[] => {
+    const name = isObject(layer) && typeof layer.name === 'string' ? layer.name : null;
+    const label = name !== null ? `Layer "${name}"` : `Layer ${i + 1}`;
+    if (!isObject(layer) || !isObject(layer.cells)) {
+      issues.push(`${label} must have a "cells" object of "x,y": colorId entries.`);
+      return [];
+    }
+    const { id, opacity } = layer;
+    const validOpacity = typeof opacity === 'number' && opacity >= 0 && opacity <= 1;
+    if (opacity !== undefined && !validOpacity) issues.push(`${label} opacity must be between 0 and 1.`);
+    if (typeof id === 'string' && id) {
+      if (seen.has(id)) issues.push(`Layer id "${id}" is used twice.`);
+      seen.add(id);
+    }
+    return [{
+      id: typeof id === 'string' && id ? id : uuidv4(),
+      name: name ?? `Layer ${i + 1}`,
+      visible: layer.visible !== false,
+      locked: layer.locked === true,
+      opacity: validOpacity ? opacity : 1,
+      // Values are checked by checkCells
+      cells: layer.cells as Record<CellKey, string>,
+    }];
+  });
+};
+
+const checkCells = (layer: PatternLayer, board: BoardSpec, colorIds: Set<string>, issues: string[]) => {
+  Object.entries(layer.cells).forEach(([key, colorId]) => {
+    const match = key.match(CELL_KEY_RE);
+    if (!match) {
+      issues.push(`${layer.name}: cell key "${key}" is not in "x,y" form.`);
+    } else if (!isPegOnBoard(Number(match[1]), Number(match[2]), board)) {
+      issues.push(`${layer.name}: cell ${key} is outside the ${board.cols} × ${board.rows} board.`);
+    } else if (typeof colorId !== 'string' || !colorIds.has(colorId)) {
+      issues.push(`${layer.name}: cell ${key} uses unknown color id "${colorId}".`);
+    }
+  });
+};
+
+// Visible layers, top-most bead wins
+const flattenLayers = (layers: PatternLayer[]): Record<CellKey, string> =>
+  layers.reduce((cells, layer) => layer.visible ? { ...cells, ...layer.cells } : cells, {} as Record<CellKey, string>);
+
+/**
+ * Reads a pattern file saved by "Save JSON" (any format version), migrating
+ * it to the current format. Throws an Error listing what's wrong.
+ */
+export const parsePatternFile = (text: string): Pattern => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  return parsePatternData(data);
+};
+
+/**
+ * Checks and migrates an already-parsed pattern object, as parsePatternFile does.
+ */
+export const parsePatternData = (data: unknown): Pattern => {
+  if (!isObject(data)) throw new Error('File does not contain a pattern.');
+
+  const migrated = migrate(data);
+  const issues: string[] = [];
+  const metadata = checkMetadata(migrated.metadata, issues);
+  const board = checkBoard(migrated.board, issues);
+  const palette = checkPalette(migrated.palette, issues);
+
+  const layers = checkLayers(migrated.layers, issues);
+  if (board && issues.length === 0) {
+    const colorIds = new Set(palette.map(p => p.id));
+    layers.forEach(layer => checkCells(layer, board, colorIds, issues));
+  }
+
+  if (issues.length > 0) {
+    const listed = issues.slice(0, MAX_LISTED_ISSUES);
+    if (issues.length > listed.length) listed.push(`…and ${issues.length - listed.length} more problems.`);
+    throw new Error(listed.join('\n'));
+  }
+
+  return {
+    version: PATTERN_VERSION,
+    id: typeof migrated.id === 'string' && migrated.id ? migrated.id : uuidv4(),
+    metadata,
+    cells: flattenLayers(layers),
+    board: board!,
+    palette,
+    layers,
+  };
+};
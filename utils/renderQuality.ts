@@ -0,0 +1,43 @@
+import { RenderQuality } from '../types';
+
+/**
+ * What the 3D preview draws at a given quality.
+ */
+export interface QualitySettings {
+  transmission: boolean; // Refractive board plastic; otherwise plain see-through
+  shadows: boolean; // Shadow maps from the key light
+  contactShadows: boolean;
+  physicalBeads: boolean; // Clearcoat bead material
+  dpr: [number, number];
+}
+
+const HIGH: QualitySettings = {
+  transmission: true,
+  shadows: true,
+  contactShadows: true,
+  physicalBeads: true,
+  dpr: [1, 2],
+};
+
+const LOW: QualitySettings = {
+  transmission: false,
+  shadows: false,
+  contactShadows: false,
+  physicalBeads: false,
+  dpr: [1, 1],
+};
+
+/**
+ * Tablets and low-end laptops: few cores, little memory or a touch screen.
+ */
+export const isWeakDevice = () => {
+  if (typeof navigator === 'undefined') return false;
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  const coarse = typeof window !== 'undefined' && window.matchMedia?.('(pointer: coarse)').matches;
+  return (navigator.hardwareConcurrency || 8) <= 4 || (memory !== undefined && memory <= 4) || !!coarse;
+};
+
+export const qualitySettings = (quality: RenderQuality): QualitySettings => {
+  if (quality === 'auto') return isWeakDevice() ? LOW : HIGH;
+  return quality === 'low' ? LOW : HIGH;
+};
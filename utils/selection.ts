@@ -0,0 +1,93 @@
+import { BoardSpec, CellKey } from '../types';
+import { makeKey, parseKey } from './coords';
+
+export interface SelectionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A detached block of pegs. Keys are relative to the region's top-left.
+ */
+export interface Region {
+  width: number;
+  height: number;
+  cells: Map<CellKey, string>;
+}
+
+/**
+ * Region floating above the board (pasted or being moved) until committed.
+ * `lifted` holds the pegs it was cut from so a cancel can put them back.
+ */
+export interface FloatingRegion extends Region {
+  x: number;
+  y: number;
+  lifted: Map<CellKey, string> | null;
+}
+
+/**
+ * Normalizes two corner cells into a rect clamped to the board.
+ */
+export const rectFromCorners = (
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+  board: BoardSpec
+): SelectionRect | null => {
+  const minX = Math.max(0, Math.min(a.x, b.x));
+  const minY = Math.max(0, Math.min(a.y, b.y));
+  const maxX = Math.min(board.cols - 1, Math.max(a.x, b.x));
+  const maxY = Math.min(board.rows - 1, Math.max(a.y, b.y));
+  if (maxX < minX || maxY < minY) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+export const rectContains = (rect: SelectionRect, x: number, y: number) =>
+  x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+
+export const extractRegion = (cells: Map<CellKey, string>, rect: SelectionRect): Region => {
+  const region = new Map<CellKey, string>();
+  cells.forEach((colorId, key) => {
+    const { x, y } = parseKey(key);
+    if (rectContains(rect, x, y)) region.set(makeKey(x - rect.x, y - rect.y), colorId);
+  });
+  return { width: rect.width, height: rect.height, cells: region };
+};
+
+export const flipRegion = (region: Region, axis: 'horizontal' | 'vertical'): Region => {
+  const flipped = new Map<CellKey, string>();
+  region.cells.forEach((colorId, key) => {
+    const { x, y } = parseKey(key);
+    const nx = axis === 'horizontal' ? region.width - 1 - x : x;
+    const ny = axis === 'vertical' ? region.height - 1 - y : y;
+    flipped.set(makeKey(nx, ny), colorId);
+  });
+  return { width: region.width, height: region.height, cells: flipped };
+};
+
+/**
+ * Rotates 90° clockwise. Width and height swap.
+ */
+export const rotateRegion = (region: Region): Region => {
+  const rotated = new Map<CellKey, string>();
+  region.cells.forEach((colorId, key) => {
+    const { x, y } = parseKey(key);
+    rotated.set(makeKey(region.height - 1 - y, x), colorId);
+  });
+  return { width: region.height, height: region.width, cells: rotated };
+};
+
+/**
+ * Keeps a region of the given size fully on the board where possible.
+ */
+export const clampRegionPosition = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  board: BoardSpec
+): { x: number; y: number } => ({
+  x: Math.max(0, Math.min(x, board.cols - width)),
+  y: Math.max(0, Math.min(y, board.rows - height)),
+});
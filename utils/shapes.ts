@@ -0,0 +1,194 @@
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+export interface Stamp {
+  id: string;
+  name: string;
+  rows: string[]; // 'X' = peg, anything else = empty
+}
+
+/**
+ * Bresenham line between two grid cells (inclusive of both ends).
+ */
+export const linePoints = (x0: number, y0: number, x1: number, y1: number): GridPoint[] => {
+  const points: GridPoint[] = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  let x = x0;
+  let y = y0;
+
+  while (true) {
+    points.push({ x, y });
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x += sx; }
+    if (e2 <= dx) { err += dx; y += sy; }
+  }
+  return points;
+};
+
+/**
+ * Axis-aligned rectangle spanned by two opposite corners.
+ */
+export const rectPoints = (x0: number, y0: number, x1: number, y1: number, filled: boolean): GridPoint[] => {
+  const points: GridPoint[] = [];
+  const minX = Math.min(x0, x1), maxX = Math.max(x0, x1);
+  const minY = Math.min(y0, y1), maxY = Math.max(y0, y1);
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const onEdge = x === minX || x === maxX || y === minY || y === maxY;
+      if (filled || onEdge) points.push({ x, y });
+    }
+  }
+  return points;
+};
+
+/**
+ * Ellipse inscribed in the bounding box of two opposite corners.
+ * Cells are sampled at their centers, so even-sized boxes stay symmetric.
+ */
+export const ellipsePoints = (x0: number, y0: number, x1: number, y1: number, filled: boolean): GridPoint[] => {
+  const minX = Math.min(x0, x1), maxX = Math.max(x0, x1);
+  const minY = Math.min(y0, y1), maxY = Math.max(y0, y1);
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  const rx = (maxX - minX) / 2 + 0.5;
+  const ry = (maxY - minY) / 2 + 0.5;
+
+  const inside = (x: number, y: number) => {
+    if (x < minX || x > maxX || y < minY || y > maxY) return false;
+    const nx = (x - cx) / rx;
+    const ny = (y - cy) / ry;
+    return nx * nx + ny * ny <= 1;
+  };
+
+  const points: GridPoint[] = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!inside(x, y)) continue;
+      // Outline = inside cells with at least one 4-neighbor outside
+      const onEdge = !inside(x + 1, y) || !inside(x - 1, y) || !inside(x, y + 1) || !inside(x, y - 1);
+      if (filled || onEdge) points.push({ x, y });
+    }
+  }
+  return points;
+};
+
+export const STAMPS: Stamp[] = [
+  {
+    id: 'heart',
+    name: 'Heart',
+    rows: [
+      '.XX.XX.',
+      'XXXXXXX',
+      'XXXXXXX',
+      '.XXXXX.',
+      '..XXX..',
+      '...X...',
+    ],
+  },
+  {
+    id: 'star',
+    name: 'Star',
+    rows: [
+      '...X...',
+      '...X...',
+      'XXXXXXX',
+      '.XXXXX.',
+      '..XXX..',
+      '.XX.XX.',
+      'X.....X',
+    ],
+  },
+  {
+    id: 'smiley',
+    name: 'Smiley',
+    rows: [
+      '..XXX..',
+      '.X...X.',
+      'X.X.X.X',
+      'X.....X',
+      'X.X.X.X',
+      '.X.X.X.',
+      '..XXX..',
+    ],
+  },
+  {
+    id: 'flower',
+    name: 'Flower',
+    rows: [
+      '.X.X.',
+      'XXXXX',
+      '.XXX.',
+      'XXXXX',
+      '.X.X.',
+    ],
+  },
+  {
+    id: 'house',
+    name: 'House',
+    rows: [
+      '...X...',
+      '..XXX..',
+      '.XXXXX.',
+      'XXXXXXX',
+      '.X...X.',
+      '.X.X.X.',
+      '.XXXXX.',
+    ],
+  },
+];
+
+/**
+ * Stamp cells centered on (cx, cy).
+ */
+export const stampPoints = (stamp: Stamp, cx: number, cy: number): GridPoint[] => {
+  const height = stamp.rows.length;
+  const width = Math.max(...stamp.rows.map(r => r.length));
+  const originX = cx - Math.floor(width / 2);
+  const originY = cy - Math.floor(height / 2);
+
+  const points: GridPoint[] = [];
+  stamp.rows.forEach((row, dy) => {
+    for (let dx = 0; dx < row.length; dx++) {
+      if (row[dx] === 'X') points.push({ x: originX + dx, y: originY + dy });
+    }
+  });
+  return points;
+};
+
+export type ShapeTool = 'line' | 'rect' | 'ellipse' | 'stamp';
+
+export const isShapeTool = (tool: string): tool is ShapeTool =>
+  tool === 'line' || tool === 'rect' || tool === 'ellipse' || tool === 'stamp';
+
+/**
+ * Cells covered by a shape tool dragged from `start` to `end`.
+ * Stamps ignore `start` and are centered on `end`.
+ */
+export const shapePoints = (
+  tool: ShapeTool,
+  start: GridPoint,
+  end: GridPoint,
+  filled: boolean,
+  stampId: string
+): GridPoint[] => {
+  switch (tool) {
+    case 'line':
+      return linePoints(start.x, start.y, end.x, end.y);
+    case 'rect':
+      return rectPoints(start.x, start.y, end.x, end.y, filled);
+    case 'ellipse':
+      return ellipsePoints(start.x, start.y, end.x, end.y, filled);
+    case 'stamp': {
+      const stamp = STAMPS.find(s => s.id === stampId) || STAMPS[0];
+      return stampPoints(stamp, end.x, end.y);
+    }
+  }
+};
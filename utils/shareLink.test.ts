@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BOARD, DEFAULT_PALETTE, MAX_BOARD_PEGS, Pattern } from '../types';
+import { decodeSharedPattern, encodeSharedPattern, shareUrl, sharedPatternData } from './shareLink';
+import { makeMosaic } from './mosaic';
+
+const palette = DEFAULT_PALETTE.slice(0, 4);
+
+const makePattern = (cells: Record<string, string>, board = DEFAULT_BOARD): Pattern => ({
+  id: 'original',
+  metadata: { title: 'Rainbow ✿', author: 'Zoë', difficulty: 'Hard', created: 1 },
+  cells,
+  board,
+  palette,
+});
+
+// Pegs in reading order with runs, gaps and a trailing empty stretch
+const stripes = (cols: number, rows: number) => {
+  const cells: Record<string, string> = {};
+  for (let y = 0; y < rows - 2; y++) {
+    for (let x = 0; x < cols; x++) {
+      if ((x + y) % 7 !== 0) cells[`${x},${y}`] = palette[Math.floor(x / 4) % palette.length].id;
+    }
+  }
+  return cells;
+};
+
+describe('share links', () => {
+  it('round-trips board, palette, metadata and every bead', () => {
+    const pattern = makePattern(stripes(30, 30));
+    const decoded = decodeSharedPattern(encodeSharedPattern(pattern));
+    expect(decoded.cells).toEqual(pattern.cells);
+    expect(decoded.board).toEqual({ ...DEFAULT_BOARD, shape: 'rect', lattice: 'square' });
+    expect(decoded.palette).toEqual(palette);
+    expect(decoded.metadata).toMatchObject({ title: 'Rainbow ✿', author: 'Zoë', difficulty: 'Hard' });
+    expect(decoded.id).not.toBe(pattern.id);
+  });
+
+  it('round-trips an empty board', () => {
+    expect(decodeSharedPattern(encodeSharedPattern(makePattern({}))).cells).toEqual({});
+  });
+
+  it('keeps shaped, hex and mosaic boards', () => {
+    const board = makeMosaic({ ...DEFAULT_BOARD, cols: 10, rows: 10, shape: 'circle', lattice: 'hex' }, { across: 2, down: 1 });
+    const decoded = decodeSharedPattern(encodeSharedPattern(makePattern({}, board)));
+    expect(decoded.board).toMatchObject({ cols: 20, rows: 10, shape: 'circle', lattice: 'hex', mosaic: { across: 2, down: 1 } });
+  });
+
+  it('encodes long runs compactly', () => {
+    const full: Record<string, string> = {};
+    for (let y = 0; y < 30; y++) for (let x = 0; x < 30; x++) full[`${x},${y}`] = 'red';
+    expect(encodeSharedPattern(makePattern(full)).length).toBeLessThan(200);
+  });
+
+  it('uses only URL-safe characters', () => {
+    expect(encodeSharedPattern(makePattern(stripes(30, 30)))).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('reports a cut-off link', () => {
+    const data = encodeSharedPattern(makePattern(stripes(30, 30)));
+    expect(() => decodeSharedPattern(data.slice(0, 20))).toThrow(/incomplete/);
+  });
+
+  it('reports a link cut between two runs of beads', () => {
+    const pattern = makePattern({ '0,0': 'red', '2,0': 'blue', '4,0': 'red' });
+    const bytes = Buffer.from(encodeSharedPattern(pattern), 'base64url');
+    // Drop the last run (length and color, one byte each)
+    expect(() => decodeSharedPattern(bytes.subarray(0, -2).toString('base64url'))).toThrow(/incomplete/);
+  });
+
+  it('still opens links made before the run count was added', () => {
+    const bytes = Buffer.from(encodeSharedPattern(makePattern({})), 'base64url');
+    // Version 1 had no run count; an empty board ends with a count of zero
+    const legacy = Buffer.concat([Buffer.from([1]), bytes.subarray(1, -1)]);
+    expect(decodeSharedPattern(legacy.toString('base64url')).board.cols).toBe(DEFAULT_BOARD.cols);
+  });
+
+  it('refuses boards too large to open', () => {
+    const huge = { ...DEFAULT_BOARD, cols: MAX_BOARD_PEGS + 1, rows: 1 };
+    expect(() => decodeSharedPattern(encodeSharedPattern(makePattern({}, huge)))).toThrow(/damaged/);
+  });
+
+  it('reports a damaged link', () => {
+    expect(() => decodeSharedPattern('!!!')).toThrow(/damaged/);
+  });
+
+  it('reads the data back out of the page URL', () => {
+    const pattern = makePattern({ '0,0': 'red' });
+    const url = shareUrl(pattern, 'https://example.com/app/#old');
+    expect(url.startsWith('https://example.com/app/#p=')).toBe(true);
+    expect(sharedPatternData(new URL(url).hash)).toBe(encodeSharedPattern(pattern));
+    expect(sharedPatternData('#other')).toBeNull();
+  });
+});
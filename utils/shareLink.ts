@@ -0,0 +1,201 @@
+import { BoardLattice, BoardShape, BoardSpec, MAX_BOARD_PEGS, PATTERN_VERSION, Pattern } from '../types';
+import { parsePatternData } from './patternIO';
+import { hexToRgb } from './imageQuantize';
+import { mosaicLayout } from './mosaic';
+import { v4 as uuidv4 } from 'uuid';
+
+// Links carry `#p=<data>`; bump the first byte of the data when the layout changes
+const HASH_KEY = 'p';
+const LINK_VERSION = 2;
+// Version 1 links have no run count before the bead runs
+const RUN_COUNT_SINCE = 2;
+
+// Indexes are stored in links: only ever append to these lists
+const SHAPES: BoardShape[] = ['rect', 'circle', 'hexagon', 'heart', 'star'];
+const LATTICES: BoardLattice[] = ['square', 'hex'];
+const DIFFICULTIES: Array<Pattern['metadata']['difficulty']> = ['Easy', 'Medium', 'Hard'];
+const BOARD_SIZES: Array<keyof BoardSpec> = ['widthMm', 'heightMm', 'pegPitchMm', 'pegDiameterMm', 'pegHeightMm', 'marginMm'];
+
+// Links somewhere past this may be cut off by chat apps and class pages
+export const LONG_LINK = 8000;
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+/**
+ * The pattern as a short URL-safe string: board, palette and the visible
+ * beads as runs of palette indexes in reading order. Layers are flattened and
+ * color finishes (roughness, metalness) are left out.
+ */
+export const encodeSharedPattern = (pattern: Pattern): string => {
+  const board = pattern.board!;
+  const palette = pattern.palette!;
+  const bytes: number[] = [];
+  // Unsigned LEB128: 7 bits per byte, high bit set while more follow
+  const uint = (n: number) => {
+    let rest = Math.max(0, Math.round(n));
+    while (rest >= 0x80) {
+      bytes.push((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    bytes.push(rest);
+  };
+  const text = (s: string) => {
+    const encoded = new TextEncoder().encode(s);
+    uint(encoded.length);
+    encoded.forEach(b => bytes.push(b));
+  };
+
+  bytes.push(LINK_VERSION);
+  text(pattern.metadata.title);
+  text(pattern.metadata.author);
+  uint(Math.max(0, DIFFICULTIES.indexOf(pattern.metadata.difficulty)));
+
+  uint(board.cols);
+  uint(board.rows);
+  BOARD_SIZES.forEach(key => uint((board[key] as number) * 100));
+  uint(Math.max(0, SHAPES.indexOf(board.shape ?? 'rect')));
+  uint(Math.max(0, LATTICES.indexOf(board.lattice ?? 'square')));
+  const { across, down } = mosaicLayout(board);
+  uint(across);
+  uint(down);
+
+  uint(palette.length);
+  palette.forEach(color => {
+    hexToRgb(color.hex).forEach(c => bytes.push(c));
+    text(color.id);
+    text(color.name === color.id ? '' : color.name);
+  });
+
+  // 0 = empty peg, else palette index + 1; trailing empty pegs are implied
+  const indexes = new Map(palette.map((color, i) => [color.id, i + 1]));
+  const runs: Array<[number, number]> = [];
+  let value = -1;
+  let run = 0;
+  for (let y = 0; y < board.rows; y++) {
+    for (let x = 0; x < board.cols; x++) {
+      const next = indexes.get(pattern.cells[`${x},${y}`]) ?? 0;
+      if (next === value) {
+        run++;
+        continue;
+      }
+      if (run > 0) runs.push([run, value]);
+      value = next;
+      run = 1;
+    }
+  }
+  if (run > 0 && value !== 0) runs.push([run, value]);
+  // The count lets the reader tell a link cut between two runs from a whole one
+  uint(runs.length);
+  runs.forEach(([length, index]) => { uint(length); uint(index); });
+
+  return toBase64Url(Uint8Array.from(bytes));
+};
+
+/**
+ * Reads a string from encodeSharedPattern back into a checked pattern with
+ * a fresh id. Throws an Error if the link is damaged.
+ */
+export const decodeSharedPattern = (data: string): Pattern => {
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(data);
+  } catch {
+    throw new Error('This link is damaged. Ask for the link again.');
+  }
+  let pos = 0;
+  const need = (count: number) => {
+    if (pos + count > bytes.length) throw new Error('This link is incomplete. It may have been cut off when it was copied.');
+  };
+  const byte = () => {
+    need(1);
+    return bytes[pos++];
+  };
+  const uint = () => {
+    let n = 0;
+    let scale = 1;
+    for (;;) {
+      const b = byte();
+      n += (b & 0x7f) * scale;
+      if (b < 0x80) return n;
+      scale *= 0x80;
+    }
+  };
+  const text = () => {
+    const length = uint();
+    need(length);
+    const s = new TextDecoder().decode(bytes.subarray(pos, pos + length));
+    pos += length;
+    return s;
+  };
+  const hex = () => '#' + [byte(), byte(), byte()].map(c => c.toString(16).padStart(2, '0')).join('');
+
+  const version = byte();
+  if (version > LINK_VERSION) throw new Error('This link was made with a newer version of PegPop. Please update to open it.');
+
+  const metadata = { title: text(), author: text(), difficulty: DIFFICULTIES[uint()], created: Date.now() };
+  const cols = uint();
+  const rows = uint();
+  if (cols > MAX_BOARD_PEGS || rows > MAX_BOARD_PEGS) throw new Error('This link is damaged. Ask for the link again.');
+  const board: Record<string, unknown> = { cols, rows };
+  BOARD_SIZES.forEach(key => { board[key] = uint() / 100; });
+  board.shape = SHAPES[uint()];
+  board.lattice = LATTICES[uint()];
+  const across = uint();
+  const down = uint();
+  if (across * down > 1) board.mosaic = { across, down };
+
+  const palette = Array.from({ length: uint() }, () => {
+    const color = hex();
+    const id = text();
+    return { id, name: text() || id, hex: color };
+  });
+
+  const cells: Record<string, string> = {};
+  const total = cols * rows;
+  let index = 0;
+  const runCount = version >= RUN_COUNT_SINCE ? uint() : null;
+  for (let r = 0; runCount === null ? pos < bytes.length : r < runCount; r++) {
+    const run = uint();
+    const value = uint();
+    if (index + run > total || value > palette.length) throw new Error('This link is damaged. Ask for the link again.');
+    if (value > 0) {
+      for (let i = index; i < index + run; i++) {
+        cells[`${i % cols},${Math.floor(i / cols)}`] = palette[value - 1].id;
+      }
+    }
+    index += run;
+  }
+  if (pos < bytes.length) throw new Error('This link is damaged. Ask for the link again.');
+
+  return parsePatternData({
+    version: PATTERN_VERSION,
+    id: uuidv4(),
+    metadata,
+    board,
+    palette,
+    layers: [{ name: 'Layer 1', cells }],
+  });
+};
+
+/**
+ * Link to this page that opens `pattern`.
+ */
+export const shareUrl = (pattern: Pattern, pageUrl: string) =>
+  `${pageUrl.split('#')[0]}#${HASH_KEY}=${encodeSharedPattern(pattern)}`;
+
+/**
+ * The encoded pattern in a location hash such as `#p=...`, or null.
+ */
+export const sharedPatternData = (hash: string): string | null => {
+  const match = hash.match(new RegExp(`^#${HASH_KEY}=([A-Za-z0-9_-]+)$`));
+  return match ? match[1] : null;
+};
@@ -0,0 +1,128 @@
+import { useEffect, useRef } from 'react';
+
+export type ShortcutGroup = 'Tools' | 'Colors' | 'Edit' | 'Editor' | 'Help';
+
+/**
+ * One keyboard shortcut. Keys are written like "Mod+Shift+Z": "Mod" is Ctrl,
+ * or ⌘ on a Mac. "app" shortcuts work anywhere outside text fields; "editor"
+ * ones only while the board has keyboard focus, and are handled there.
+ */
+export interface Shortcut {
+  id: string;
+  keys: string[]; // Alternatives; handlers get the index of the one pressed
+  label: string;
+  group: ShortcutGroup;
+  scope: 'app' | 'editor';
+  display?: string; // Shown in the help instead of every key
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { id: 'pencil', keys: ['P'], label: 'Pencil', group: 'Tools', scope: 'app' },
+  { id: 'fill', keys: ['F'], label: 'Fill', group: 'Tools', scope: 'app' },
+  { id: 'eraser', keys: ['E'], label: 'Eraser', group: 'Tools', scope: 'app' },
+  { id: 'eyedropper', keys: ['I'], label: 'Pick a bead color', group: 'Tools', scope: 'app' },
+  { id: 'select', keys: ['S'], label: 'Select', group: 'Tools', scope: 'app' },
+  { id: 'line', keys: ['L'], label: 'Line', group: 'Tools', scope: 'app' },
+  { id: 'rect', keys: ['R'], label: 'Rectangle', group: 'Tools', scope: 'app' },
+  { id: 'ellipse', keys: ['O'], label: 'Ellipse', group: 'Tools', scope: 'app' },
+  { id: 'stamp', keys: ['T'], label: 'Stamp', group: 'Tools', scope: 'app' },
+  {
+    id: 'color',
+    keys: ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'],
+    label: 'Palette color 1 to 10',
+    group: 'Colors',
+    scope: 'app',
+    display: '1 … 9, 0',
+  },
+  { id: 'undo', keys: ['Mod+Z'], label: 'Undo', group: 'Edit', scope: 'app' },
+  { id: 'redo', keys: ['Mod+Y', 'Mod+Shift+Z'], label: 'Redo', group: 'Edit', scope: 'app' },
+  { id: 'copy', keys: ['Mod+C'], label: 'Copy selection', group: 'Edit', scope: 'app' },
+  { id: 'cut', keys: ['Mod+X'], label: 'Cut selection', group: 'Edit', scope: 'app' },
+  { id: 'paste', keys: ['Mod+V'], label: 'Paste', group: 'Edit', scope: 'app' },
+  {
+    id: 'cursor',
+    keys: ['ArrowUp', 'ArrowRight', 'ArrowDown', 'ArrowLeft', 'Shift+ArrowUp', 'Shift+ArrowRight', 'Shift+ArrowDown', 'Shift+ArrowLeft'],
+    label: 'Move the cursor (with Shift: 5 pegs)',
+    group: 'Editor',
+    scope: 'editor',
+    display: 'Arrow keys',
+  },
+  { id: 'place', keys: ['Enter'], label: 'Use the tool at the cursor', group: 'Editor', scope: 'editor' },
+  { id: 'cancel', keys: ['Escape'], label: 'Cancel a shape or selection', group: 'Editor', scope: 'editor' },
+  { id: 'pan', keys: ['Space'], label: 'Hold and drag to move the board', group: 'Editor', scope: 'editor', display: 'Space + drag' },
+  { id: 'zoomIn', keys: ['+', '='], label: 'Zoom in', group: 'Editor', scope: 'editor' },
+  { id: 'zoomOut', keys: ['-'], label: 'Zoom out', group: 'Editor', scope: 'editor' },
+  { id: 'help', keys: ['?'], label: 'Show shortcuts', group: 'Help', scope: 'app' },
+];
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Keys as shown to people: "Mod+Z" is "Ctrl+Z", or "⌘Z" on a Mac.
+ */
+export const formatKeys = (keys: string) =>
+  isMac ? keys.replace('Mod+', '⌘').replace('Shift+', '⇧') : keys.replace('Mod+', 'Ctrl+');
+
+export const shortcutLabel = (id: string) => SHORTCUTS.find(s => s.id === id)?.label ?? id;
+
+/**
+ * "Pencil (P)", for tooltips.
+ */
+export const shortcutHint = (id: string) => {
+  const shortcut = SHORTCUTS.find(s => s.id === id);
+  return shortcut ? `${shortcut.label} (${formatKeys(shortcut.display ?? shortcut.keys[0])})` : '';
+};
+
+/**
+ * The first key of a shortcut for `aria-keyshortcuts` ("Control+Z" style).
+ */
+export const ariaKeys = (id: string) => {
+  const key = SHORTCUTS.find(s => s.id === id)?.keys[0];
+  return key?.replace('Mod+', isMac ? 'Meta+' : 'Control+');
+};
+
+// Fields where typed keys belong to the field, not to shortcuts
+export const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const eventKeys = (e: KeyboardEvent) => {
+  const key = e.code === 'Space' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  // Shift is part of symbols like "?" already
+  const shifted = e.shiftKey && (key.length > 1 || /[A-Z]/.test(key));
+  return [(e.ctrlKey || e.metaKey) && 'Mod', e.altKey && 'Alt', shifted && 'Shift', key].filter(Boolean).join('+');
+};
+
+/**
+ * The shortcut of `scope` that `e` presses, and which of its keys it was.
+ */
+export const matchShortcut = (e: KeyboardEvent, scope: Shortcut['scope']) => {
+  const pressed = eventKeys(e);
+  for (const shortcut of SHORTCUTS) {
+    if (shortcut.scope !== scope) continue;
+    const index = shortcut.keys.indexOf(pressed);
+    if (index >= 0) return { id: shortcut.id, index };
+  }
+  return null;
+};
+
+/**
+ * Runs `handlers[id](keyIndex)` for app shortcuts pressed anywhere outside text fields.
+ * Handlers may change every render.
+ */
+export const useShortcuts = (handlers: Record<string, (index: number) => void>) => {
+  const latest = useRef(handlers);
+  latest.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTextEntry(e.target)) return;
+      const match = matchShortcut(e, 'app');
+      const handler = match && latest.current[match.id];
+      if (!match || !handler) return;
+      e.preventDefault();
+      handler(match.index);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
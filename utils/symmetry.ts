@@ -0,0 +1,64 @@
+import { BoardSpec, SymmetryMode } from '../types';
+import { latticeExtent, latticePosition, makeKey, nearestPeg } from './coords';
+import { isPegOnBoard } from './boardShape';
+import { GridPoint } from './shapes';
+
+/**
+ * Quarter turns of (x, y) about the board center, computed in lattice space.
+ * On hex boards most turned positions fall between pegs and are skipped.
+ */
+const quarterTurns = (x: number, y: number, board: BoardSpec): GridPoint[] => {
+  const extent = latticeExtent(board);
+  const cu = extent.width / 2;
+  const cv = extent.height / 2;
+  const pos = latticePosition(x, y, board);
+  const du = pos.u - cu;
+  const dv = pos.v - cv;
+
+  const turned: GridPoint[] = [];
+  ([[-dv, du], [-du, -dv], [dv, -du]] as Array<[number, number]>).forEach(([iu, iv]) => {
+    const p = nearestPeg(cu + iu, cv + iv, board);
+    const snapped = latticePosition(p.x, p.y, board);
+    if (Math.abs(snapped.u - cu - iu) > 1e-6 || Math.abs(snapped.v - cv - iv) > 1e-6) return;
+    turned.push(p);
+  });
+  return turned;
+};
+
+/**
+ * All cells a stroke at (x, y) touches under the given symmetry mode,
+ * including (x, y) itself. Images that land off the board (or its mask) are dropped.
+ * Mirrors flip row/column indices, which on hex boards keeps each image in
+ * a matching row even though offset rows are half a pitch out.
+ */
+export const symmetryPoints = (x: number, y: number, mode: SymmetryMode, board: BoardSpec): GridPoint[] => {
+  const mx = board.cols - 1 - x;
+  const my = board.rows - 1 - y;
+  let candidates: GridPoint[];
+
+  switch (mode) {
+    case 'horizontal':
+      candidates = [{ x, y }, { x: mx, y }];
+      break;
+    case 'vertical':
+      candidates = [{ x, y }, { x, y: my }];
+      break;
+    case 'both':
+      candidates = [{ x, y }, { x: mx, y }, { x, y: my }, { x: mx, y: my }];
+      break;
+    case 'rotational':
+      candidates = [{ x, y }, ...quarterTurns(x, y, board)];
+      break;
+    default:
+      candidates = [{ x, y }];
+  }
+
+  const seen = new Set<string>();
+  return candidates.filter(p => {
+    if (!isPegOnBoard(p.x, p.y, board)) return false;
+    const key = makeKey(p.x, p.y);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
@@ -0,0 +1,322 @@
+import jsPDF from 'jspdf';
+import { BoardSpec, Pattern, PaletteColor } from '../types';
+import { latticeExtent, latticePosition } from './coords';
+import { boardOutlinesMm, isPegOnBoard } from './boardShape';
+import { tileLabel } from './mosaic';
+
+export type PaperSize = 'a4' | 'letter' | 'a3';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export const PAPER_SIZES: Array<{ id: PaperSize; name: string; widthMm: number; heightMm: number }> = [
+  { id: 'a4', name: 'A4', widthMm: 210, heightMm: 297 },
+  { id: 'letter', name: 'US Letter', widthMm: 215.9, heightMm: 279.4 },
+  { id: 'a3', name: 'A3', widthMm: 297, heightMm: 420 },
+];
+
+export interface TemplateOptions {
+  paper: PaperSize;
+  orientation: PaperOrientation;
+  overlapMm: number; // Strip printed on both neighboring pages, for gluing
+  colors: boolean; // Print the design's beads, or only the empty holes
+}
+
+const PAGE_MARGIN = 15; // Room for rulers and trim lines; printers can't reach the edge anyway
+const MARK_SPACING = 40; // Alignment marks along each seam, in mm
+const MARK_RADIUS = 3;
+const MAX_RULER = 100;
+
+/**
+ * How the true-size board is cut into pages. Content coordinates are mm
+ * from the top-left of the board's outline.
+ */
+export const templateLayout = (board: BoardSpec, options: TemplateOptions) => {
+  const paper = PAPER_SIZES.find(p => p.id === options.paper) || PAPER_SIZES[0];
+  const landscape = options.orientation === 'landscape';
+  const pageWidth = landscape ? paper.heightMm : paper.widthMm;
+  const pageHeight = landscape ? paper.widthMm : paper.heightMm;
+  const areaWidth = pageWidth - PAGE_MARGIN * 2;
+  const areaHeight = pageHeight - PAGE_MARGIN * 2;
+  const overlap = Math.max(0, Math.min(options.overlapMm, areaWidth / 2, areaHeight / 2));
+
+  const points = boardOutlinesMm(board).flat();
+  const minX = Math.min(...points.map(p => p[0]));
+  const minY = Math.min(...points.map(p => p[1]));
+  const width = Math.max(...points.map(p => p[0])) - minX;
+  const height = Math.max(...points.map(p => p[1])) - minY;
+
+  const stepX = areaWidth - overlap;
+  const stepY = areaHeight - overlap;
+  return {
+    pageWidth,
+    pageHeight,
+    areaWidth,
+    areaHeight,
+    stepX,
+    stepY,
+    overlap,
+    across: Math.max(1, Math.ceil((width - overlap) / stepX)),
+    down: Math.max(1, Math.ceil((height - overlap) / stepY)),
+    bounds: { minX, minY, width, height },
+  };
+};
+
+type Layout = ReturnType<typeof templateLayout>;
+
+/**
+ * Millimeter ruler from (x, y) along one axis, with peg ticks every
+ * `pegStep` mm on the far side so the print can be checked against a board.
+ */
+const drawRuler = (doc: jsPDF, x: number, y: number, length: number, vertical: boolean, pegStep: number) => {
+  // Ticks grow away from the print area: down for the bottom ruler, left for the side one
+  const at = (along: number, across: number): [number, number] =>
+    vertical ? [x - across, y - along] : [x + along, y + across];
+  const line = (a1: number, c1: number, a2: number, c2: number) => doc.line(...at(a1, c1), ...at(a2, c2));
+
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.15);
+  doc.setTextColor(0);
+  doc.setFontSize(6);
+  line(0, 0, length, 0);
+  for (let mm = 0; mm <= length; mm++) {
+    const tick = mm % 10 === 0 ? 2.5 : mm % 5 === 0 ? 1.6 : 1;
+    line(mm, 0, mm, tick);
+    if (mm % 10 === 0 && mm > 0) {
+      const [tx, ty] = at(mm, 4.8);
+      doc.text(String(mm / 10), tx, ty, { align: 'center', baseline: 'middle', angle: vertical ? 90 : 0 });
+    }
+  }
+  const [ux, uy] = at(length + 2, 1);
+  doc.text('cm', ux, uy, { baseline: 'middle', angle: vertical ? 90 : 0 });
+
+  // Peg spacing on the other side of the line
+  const pegs = Math.floor(length / pegStep);
+  doc.setDrawColor(225, 29, 72); // Rose 600
+  for (let i = 0; i <= pegs; i++) line(i * pegStep, 0, i * pegStep, -1.5);
+  doc.setTextColor(225, 29, 72);
+  const [px, py] = at(0, -3);
+  doc.text(`${pegs} pegs = ${Math.round(pegs * pegStep * 10) / 10} mm`, px, py, {
+    baseline: 'middle',
+    angle: vertical ? 90 : 0,
+  });
+};
+
+const drawRulers = (doc: jsPDF, board: BoardSpec, layout: Layout) => {
+  const rowStep = latticePosition(0, 1, board).v * board.pegPitchMm;
+  const horizontal = Math.min(MAX_RULER, Math.floor(layout.areaWidth / 10) * 10);
+  const vertical = Math.min(MAX_RULER, Math.floor(layout.areaHeight / 10) * 10);
+  drawRuler(doc, PAGE_MARGIN, layout.pageHeight - PAGE_MARGIN + 4, horizontal, false, board.pegPitchMm);
+  drawRuler(doc, PAGE_MARGIN - 4, layout.pageHeight - PAGE_MARGIN, vertical, true, rowStep);
+};
+
+const drawPageHeader = (doc: jsPDF, pattern: Pattern, label: string, layout: Layout) => {
+  doc.setFontSize(9);
+  doc.setTextColor(0);
+  doc.text(pattern.metadata.title, PAGE_MARGIN, 7);
+  doc.text(label, layout.pageWidth - PAGE_MARGIN, 7, { align: 'right' });
+  doc.setFontSize(7);
+  doc.setTextColor(100);
+  doc.text('Print at 100% ("Actual size"), never "Fit to page". Check both rulers before use.', PAGE_MARGIN, 11);
+};
+
+const drawAlignmentMark = (doc: jsPDF, x: number, y: number) => {
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.2);
+  doc.circle(x, y, MARK_RADIUS, 'S');
+  doc.line(x - MARK_RADIUS - 1, y, x + MARK_RADIUS + 1, y);
+  doc.line(x, y - MARK_RADIUS - 1, x, y + MARK_RADIUS + 1);
+};
+
+/**
+ * Board content (outlines and pegs) for the page at column `col`, row `row`,
+ * clipped to the print area.
+ */
+const drawTemplatePage = (
+  doc: jsPDF,
+  pattern: Pattern,
+  board: BoardSpec,
+  palette: PaletteColor[],
+  layout: Layout,
+  col: number,
+  row: number,
+  colors: boolean
+) => {
+  const { areaWidth, areaHeight, stepX, stepY, overlap, bounds } = layout;
+  const x0 = col * stepX;
+  const y0 = row * stepY;
+  const extent = latticeExtent(board);
+  // Content mm → page mm
+  const toPage = (cx: number, cy: number): [number, number] => [PAGE_MARGIN + cx - x0, PAGE_MARGIN + cy - y0];
+  const fromCenter = (mx: number, my: number): [number, number] => toPage(mx - bounds.minX, my - bounds.minY);
+
+  doc.saveGraphicsState();
+  doc.rect(PAGE_MARGIN, PAGE_MARGIN, areaWidth, areaHeight, null);
+  doc.clip();
+  doc.discardPath();
+
+  // Glue strips: this page's right and bottom edges lie under the next pages
+  doc.setFillColor(241, 245, 249); // Slate 100
+  if (col < layout.across - 1 && overlap > 0) doc.rect(PAGE_MARGIN + stepX, PAGE_MARGIN, overlap, areaHeight, 'F');
+  if (row < layout.down - 1 && overlap > 0) doc.rect(PAGE_MARGIN, PAGE_MARGIN + stepY, areaWidth, overlap, 'F');
+
+  doc.setDrawColor(100);
+  doc.setLineWidth(0.3);
+  boardOutlinesMm(board).forEach(outline => {
+    const pts = outline.map(([mx, my]) => fromCenter(mx, my));
+    pts.forEach((p, i) => {
+      const next = pts[(i + 1) % pts.length];
+      doc.line(p[0], p[1], next[0], next[1]);
+    });
+  });
+
+  const colorHex = new Map(palette.map(p => [p.id, p.hex]));
+  const beadRadius = board.pegPitchMm * 0.45;
+  const holeRadius = board.pegDiameterMm / 2;
+  doc.setLineWidth(0.15);
+  for (let x = 0; x < board.cols; x++) {
+    for (let y = 0; y < board.rows; y++) {
+      if (!isPegOnBoard(x, y, board)) continue;
+      const { u, v } = latticePosition(x, y, board);
+      const [px, py] = fromCenter((u - extent.width / 2) * board.pegPitchMm, (v - extent.height / 2) * board.pegPitchMm);
+      if (px < PAGE_MARGIN - beadRadius || px > PAGE_MARGIN + areaWidth + beadRadius) continue;
+      if (py < PAGE_MARGIN - beadRadius || py > PAGE_MARGIN + areaHeight + beadRadius) continue;
+
+      const hex = colors ? colorHex.get(pattern.cells[`${x},${y}`]) : undefined;
+      if (hex) {
+        doc.setFillColor(hex);
+        doc.setDrawColor(150);
+        doc.circle(px, py, beadRadius, 'FD');
+      }
+      // Peg position, so it can be lined up through the clear board
+      doc.setDrawColor(120);
+      doc.circle(px, py, holeRadius, 'S');
+    }
+  }
+
+  // Seams: the next page's trimmed edge lands on these lines
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.3);
+  doc.setFontSize(7);
+  doc.setTextColor(100);
+  if (col < layout.across - 1) {
+    const [sx] = toPage((col + 1) * stepX, 0);
+    doc.line(sx, PAGE_MARGIN, sx, PAGE_MARGIN + areaHeight);
+    doc.text(`Lay page ${tileLabel(col + 1, row)} edge here`, sx + 2, PAGE_MARGIN + areaHeight / 2, { angle: 270 });
+  }
+  if (row < layout.down - 1) {
+    const [, sy] = toPage(0, (row + 1) * stepY);
+    doc.line(PAGE_MARGIN, sy, PAGE_MARGIN + areaWidth, sy);
+    doc.text(`Lay page ${tileLabel(col, row + 1)} edge here`, PAGE_MARGIN + areaWidth / 2, sy + 4, { align: 'center' });
+  }
+
+  // Alignment marks sit at fixed board positions, so both pages of a seam agree;
+  // the trimmed edge cuts them in half
+  const marksBetween = (start: number, length: number) => {
+    const first = Math.ceil((start - MARK_SPACING / 2) / MARK_SPACING) * MARK_SPACING + MARK_SPACING / 2;
+    const marks: number[] = [];
+    for (let m = first; m <= start + length; m += MARK_SPACING) marks.push(m);
+    return marks;
+  };
+  [col, col + 1].forEach(seam => {
+    if (seam === 0 || seam === layout.across) return;
+    marksBetween(y0, areaHeight).forEach(my => drawAlignmentMark(doc, ...toPage(seam * stepX, my)));
+  });
+  [row, row + 1].forEach(seam => {
+    if (seam === 0 || seam === layout.down) return;
+    marksBetween(x0, areaWidth).forEach(mx => drawAlignmentMark(doc, ...toPage(mx, seam * stepY)));
+  });
+  doc.restoreGraphicsState();
+};
+
+// Pages after the first in a row or column are trimmed so they can be laid on their neighbor
+const drawTrimLines = (doc: jsPDF, layout: Layout, col: number, row: number) => {
+  const { areaWidth, areaHeight } = layout;
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.2);
+  doc.setLineDashPattern([2, 1.5], 0);
+  doc.setFontSize(7);
+  doc.setTextColor(100);
+  if (col > 0) {
+    doc.line(PAGE_MARGIN, 2, PAGE_MARGIN, layout.pageHeight - 2);
+    doc.text('Trim', PAGE_MARGIN - 1.5, PAGE_MARGIN + areaHeight / 2, { angle: 90, align: 'center' });
+  }
+  if (row > 0) {
+    doc.line(2, PAGE_MARGIN, layout.pageWidth - 2, PAGE_MARGIN);
+    doc.text('Trim', PAGE_MARGIN + areaWidth / 2, PAGE_MARGIN - 1.5, { align: 'center' });
+  }
+  doc.setLineDashPattern([], 0);
+};
+
+/**
+ * First page of a multi-page template: which sheet goes where, and how to join them.
+ */
+const drawOverview = (doc: jsPDF, pattern: Pattern, layout: Layout) => {
+  const { across, down, stepX, stepY, overlap, bounds } = layout;
+  drawPageHeader(doc, pattern, `Overview · ${across * down} pages`, layout);
+
+  doc.setFontSize(10);
+  doc.setTextColor(0);
+  [
+    '1. Print every page at 100% ("Actual size") and check the rulers on each page.',
+    '2. Trim the dashed edges, then lay each page on its neighbor so the',
+    '   round marks line up into whole circles. Glue on the shaded strips.',
+    '3. Put the sheet under your clear pegboard; pegs sit in the small circles.',
+  ].forEach((line, i) => doc.text(line, PAGE_MARGIN, PAGE_MARGIN + 8 + i * 6));
+
+  const mapTop = PAGE_MARGIN + 40;
+  const mapWidth = layout.areaWidth;
+  const mapHeight = layout.areaHeight - 50;
+  const fullWidth = (across - 1) * stepX + stepX + overlap;
+  const fullHeight = (down - 1) * stepY + stepY + overlap;
+  const scale = Math.min(mapWidth / fullWidth, mapHeight / fullHeight);
+  const left = PAGE_MARGIN + (mapWidth - fullWidth * scale) / 2;
+
+  doc.setFillColor(226, 232, 240); // Slate 200
+  doc.rect(left, mapTop, bounds.width * scale, bounds.height * scale, 'F');
+  doc.setDrawColor(0);
+  doc.setLineWidth(0.3);
+  doc.setFontSize(12);
+  for (let row = 0; row < down; row++) {
+    for (let col = 0; col < across; col++) {
+      const x = left + col * stepX * scale;
+      const y = mapTop + row * stepY * scale;
+      doc.rect(x, y, layout.areaWidth * scale, layout.areaHeight * scale, 'S');
+      doc.text(tileLabel(col, row), x + (stepX * scale) / 2, y + (stepY * scale) / 2, { align: 'center', baseline: 'middle' });
+    }
+  }
+};
+
+/**
+ * Board template at true size: 1 mm on paper is 1 mm on the board, split over
+ * as many pages as needed, so the sheet can go under a clear pegboard.
+ */
+export const generateTemplatePDF = (
+  pattern: Pattern,
+  board: BoardSpec,
+  palette: PaletteColor[],
+  options: TemplateOptions
+) => {
+  const layout = templateLayout(board, options);
+  const doc = new jsPDF({
+    orientation: options.orientation,
+    unit: 'mm',
+    format: options.paper,
+    compress: true, // Thousands of circles per page
+  });
+  const pages = layout.across * layout.down;
+
+  if (pages > 1) {
+    drawOverview(doc, pattern, layout);
+    drawRulers(doc, board, layout);
+  }
+  for (let row = 0; row < layout.down; row++) {
+    for (let col = 0; col < layout.across; col++) {
+      if (pages > 1) doc.addPage();
+      drawPageHeader(doc, pattern, pages > 1 ? `Page ${tileLabel(col, row)} (${row * layout.across + col + 1} of ${pages})` : 'True size', layout);
+      drawTemplatePage(doc, pattern, board, palette, layout, col, row, options.colors);
+      drawTrimLines(doc, layout, col, row);
+      drawRulers(doc, board, layout);
+    }
+  }
+
+  doc.save(`${pattern.metadata.title}_template.pdf`);
+};
@@ -0,0 +1,63 @@
+import { BoardSpec, CellKey, PaletteColor } from '../types';
+import { makeKey } from './coords';
+import { isPegOnBoard } from './boardShape';
+import { STAMPS, rectPoints } from './shapes';
+
+export interface PatternTemplate {
+  id: string;
+  name: string;
+  build: (board: BoardSpec, palette: PaletteColor[]) => Record<CellKey, string>;
+}
+
+// Preferred color per template, falling back to the first palette color
+const pickColor = (palette: PaletteColor[], id: string) =>
+  (palette.find(p => p.id === id) || palette[0]).id;
+
+/**
+ * A stamp blown up to fill about 60% of the board, centered.
+ */
+const stampTemplate = (stampId: string, colorId: string): PatternTemplate['build'] => (board, palette) => {
+  const stamp = STAMPS.find(s => s.id === stampId) || STAMPS[0];
+  const width = Math.max(...stamp.rows.map(r => r.length));
+  const height = stamp.rows.length;
+  const factor = Math.max(1, Math.floor((Math.min(board.cols, board.rows) * 0.6) / Math.max(width, height)));
+  const originX = Math.floor((board.cols - width * factor) / 2);
+  const originY = Math.floor((board.rows - height * factor) / 2);
+  const color = pickColor(palette, colorId);
+
+  const cells: Record<CellKey, string> = {};
+  stamp.rows.forEach((row, sy) => {
+    for (let sx = 0; sx < row.length; sx++) {
+      if (row[sx] !== 'X') continue;
+      for (let dy = 0; dy < factor; dy++) {
+        for (let dx = 0; dx < factor; dx++) {
+          const x = originX + sx * factor + dx;
+          const y = originY + sy * factor + dy;
+          if (isPegOnBoard(x, y, board)) cells[makeKey(x, y)] = color;
+        }
+      }
+    }
+  });
+  return cells;
+};
+
+export const PATTERN_TEMPLATES: PatternTemplate[] = [
+  { id: 'blank', name: 'Blank board', build: () => ({}) },
+  {
+    id: 'frame',
+    name: 'Picture frame',
+    build: (board, palette) => {
+      const color = pickColor(palette, 'blue');
+      const cells: Record<CellKey, string> = {};
+      rectPoints(0, 0, board.cols - 1, board.rows - 1, false).forEach(({ x, y }) => {
+        if (isPegOnBoard(x, y, board)) cells[makeKey(x, y)] = color;
+      });
+      return cells;
+    },
+  },
+  { id: 'heart', name: 'Big heart', build: stampTemplate('heart', 'red') },
+  { id: 'star', name: 'Big star', build: stampTemplate('star', 'yellow') },
+  { id: 'smiley', name: 'Smiley', build: stampTemplate('smiley', 'yellow') },
+  { id: 'flower', name: 'Flower', build: stampTemplate('flower', 'pink') },
+  { id: 'house', name: 'House', build: stampTemplate('house', 'orange') },
+];
@@ -0,0 +1,54 @@
+import { DEFAULT_BOARD, DEFAULT_PALETTE, Pattern } from '../types';
+import { latticeExtent, latticePosition, parseKey } from './coords';
+import { isPegOnBoard } from './boardShape';
+
+/**
+ * Renders a pattern's beads to a square PNG data URL for gallery cards.
+ */
+export const renderThumbnail = (pattern: Pattern, size = 160): string => {
+  const board = pattern.board || DEFAULT_BOARD;
+  const palette = pattern.palette?.length ? pattern.palette : DEFAULT_PALETTE;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  const extent = latticeExtent(board);
+  const cell = size / Math.max(extent.width + 1, extent.height + 1);
+  const offsetX = (size - (extent.width + 1) * cell) / 2;
+  const offsetY = (size - (extent.height + 1) * cell) / 2;
+  const center = (x: number, y: number): [number, number] => {
+    const { u, v } = latticePosition(x, y, board);
+    return [offsetX + (u + 0.5) * cell, offsetY + (v + 0.5) * cell];
+  };
+
+  ctx.fillStyle = '#f1f5f9'; // Slate 100
+  ctx.fillRect(0, 0, size, size);
+
+  // Empty holes only where they're big enough to read
+  if (cell >= 3) {
+    ctx.fillStyle = '#e2e8f0'; // Slate 200
+    for (let x = 0; x < board.cols; x++) {
+      for (let y = 0; y < board.rows; y++) {
+        if (!isPegOnBoard(x, y, board)) continue;
+        const [cx, cy] = center(x, y);
+        ctx.beginPath();
+        ctx.arc(cx, cy, cell * 0.25, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }
+
+  const colors = new Map(palette.map(p => [p.id, p.hex]));
+  Object.entries(pattern.cells).forEach(([key, colorId]) => {
+    const { x, y } = parseKey(key);
+    const [cx, cy] = center(x, y);
+    ctx.fillStyle = colors.get(colorId) || '#000';
+    ctx.beginPath();
+    ctx.arc(cx, cy, cell * 0.45, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,57 @@
+/**
+ * Pan and zoom of the 2D editor: a board-space point p (unscaled canvas
+ * units, board top-left at 0,0) is drawn at p * scale + (x, y) CSS pixels.
+ */
+export interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 8;
+
+const FIT_PADDING = 24; // CSS pixels around the board when fitted
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+export const screenToWorld = (view: Viewport, sx: number, sy: number): [number, number] => [
+  (sx - view.x) / view.scale,
+  (sy - view.y) / view.scale,
+];
+
+export const worldToScreen = (view: Viewport, wx: number, wy: number): [number, number] => [
+  wx * view.scale + view.x,
+  wy * view.scale + view.y,
+];
+
+/**
+ * Whole `width × height` board centered in the view, as large as fits.
+ */
+export const fitViewport = (width: number, height: number, viewWidth: number, viewHeight: number): Viewport => {
+  const scale = clampScale(Math.min(
+    (viewWidth - FIT_PADDING * 2) / width,
+    (viewHeight - FIT_PADDING * 2) / height
+  ));
+  return { scale, x: (viewWidth - width * scale) / 2, y: (viewHeight - height * scale) / 2 };
+};
+
+/**
+ * Zooms by `factor`, keeping the board point under screen point (sx, sy) in place.
+ */
+export const zoomAt = (view: Viewport, factor: number, sx: number, sy: number): Viewport => {
+  const scale = clampScale(view.scale * factor);
+  const [wx, wy] = screenToWorld(view, sx, sy);
+  return { scale, x: sx - wx * scale, y: sy - wy * scale };
+};
+
+export const panBy = (view: Viewport, dx: number, dy: number): Viewport => ({ ...view, x: view.x + dx, y: view.y + dy });
+
+/**
+ * Pans so board point (wx, wy) sits at the center of the view.
+ */
+export const centerOn = (view: Viewport, wx: number, wy: number, viewWidth: number, viewHeight: number): Viewport => ({
+  ...view,
+  x: viewWidth / 2 - wx * view.scale,
+  y: viewHeight / 2 - wy * view.scale,
+});